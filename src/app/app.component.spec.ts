@@ -1,10 +1,23 @@
 import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { ConfirmationService, MessageService } from 'primeng/api';
 import { AppComponent } from './app.component';
+import { NoopTelemetrySink, TELEMETRY_SINK } from './core/telemetry/telemetry-sinks';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [AppComponent],
+      providers: [
+        provideHttpClient(),
+        provideRouter([]),
+        provideNoopAnimations(),
+        ConfirmationService,
+        MessageService,
+        { provide: TELEMETRY_SINK, useClass: NoopTelemetrySink }
+      ],
     }).compileComponents();
   });
 
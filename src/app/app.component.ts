@@ -1,12 +1,17 @@
 import { Component } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
+import { ToastModule } from 'primeng/toast';
+import { GLOBAL_TOAST_KEY } from './core/services/notification.service';
+import { SessionTimeoutDialogComponent } from './shared/components/session-timeout-dialog/session-timeout-dialog.component';
+import { IdleLockOverlayComponent } from './shared/components/idle-lock-overlay/idle-lock-overlay.component';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [RouterOutlet, ToastModule, SessionTimeoutDialogComponent, IdleLockOverlayComponent],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss'
 })
 export class AppComponent {
   title = 'Syscodia-Tracking';
-}
+  readonly globalToastKey = GLOBAL_TOAST_KEY;
+}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
+import { ApplicationConfig, ErrorHandler, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideAnimations } from '@angular/platform-browser/animations';
 import { ConfirmationService, MessageService } from 'primeng/api';
@@ -6,6 +6,9 @@ import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { providePrimeNG } from 'primeng/config';
 import Lara from '@primeng/themes/lara';
 import { authInterceptor } from './core/interceptors/auth.interceptor';
+import { errorInterceptor } from './core/interceptors/error.interceptor';
+import { telemetryInterceptor } from './core/interceptors/telemetry.interceptor';
+import { GlobalErrorHandler } from './core/services/global-error-handler';
 
 import { routes } from './app.routes';
 
@@ -17,7 +20,7 @@ export const appConfig: ApplicationConfig = {
     provideZoneChangeDetection({ eventCoalescing: true }), 
     provideRouter(routes),
     provideAnimations(),
-    provideHttpClient(withInterceptors([authInterceptor])),
+    provideHttpClient(withInterceptors([telemetryInterceptor, errorInterceptor, authInterceptor])),
     providePrimeNG({
       theme: {
         preset: Lara,
@@ -32,6 +35,10 @@ export const appConfig: ApplicationConfig = {
       provide: 'GOOGLE_MAPS_API_KEY',
       useValue: GOOGLE_MAPS_API_KEY
     },
+    {
+      provide: ErrorHandler,
+      useClass: GlobalErrorHandler
+    },
     ConfirmationService,
     MessageService
   ]
@@ -1,5 +1,6 @@
 import { Routes } from '@angular/router';
 import { AuthGuard } from './core/guards/auth.guard';
+import { PermissionGuard } from './core/guards/permission.guard';
 
 export const routes: Routes = [
   {
@@ -14,18 +15,28 @@ export const routes: Routes = [
   {
     path: 'dashboard',
     loadComponent: () => import('./features/tracking/tracking.component').then(m => m.TrackingComponent),
-    canActivate: [AuthGuard]
+    canActivate: [AuthGuard, PermissionGuard],
+    data: {
+      permissions: ['device:read']
+    }
   },
   {
     path: 'location-history',
     loadChildren: () => import('./features/location-history/location-history.module').then(m => m.LocationHistoryModule),
     canActivate: [AuthGuard],
+    canActivateChild: [PermissionGuard],
     data: {
       preload: true,
       title: 'Location History',
       description: 'View and analyze location tracking data'
     }
   },
+  {
+    path: 'access-denied',
+    loadComponent: () => import('./features/auth/access-denied/access-denied.component').then(m => m.AccessDeniedComponent),
+    canActivate: [AuthGuard],
+    title: 'Access Denied'
+  },
   {
     path: '**',
     redirectTo: '/dashboard'
@@ -0,0 +1,75 @@
+import { BatterySample, addBatterySample, estimateTimeToEmpty, getBatteryLevel, isBatteryDrop } from './battery-rules';
+
+describe('battery rules', () => {
+  const MINUTE = 60 * 1000;
+  const HOUR = 60 * MINUTE;
+
+  function samples(...readings: [minutes: number, battery: number][]): BatterySample[] {
+    return readings.map(([minutes, battery]) => ({ timestamp: minutes * MINUTE, battery }));
+  }
+
+  describe('getBatteryLevel', () => {
+    const thresholds = { low: 20, critical: 10 };
+
+    it('treats the thresholds as inclusive', () => {
+      expect(getBatteryLevel(21, thresholds)).toBe('ok');
+      expect(getBatteryLevel(20, thresholds)).toBe('low');
+      expect(getBatteryLevel(10, thresholds)).toBe('critical');
+    });
+
+    it('counts a first reading as a drop from ok', () => {
+      expect(isBatteryDrop(undefined, 'low')).toBeTrue();
+      expect(isBatteryDrop('critical', 'low')).toBeFalse();
+    });
+  });
+
+  describe('estimateTimeToEmpty', () => {
+    it('extrapolates a steady discharge', () => {
+      const estimate = estimateTimeToEmpty(samples([0, 60], [30, 55], [60, 50]));
+
+      expect(estimate?.ratePerHour).toBeCloseTo(10);
+      expect(estimate?.emptyAt).toBeCloseTo(60 * MINUTE + 5 * HOUR);
+    });
+
+    it('only uses the readings since the battery last went up', () => {
+      const estimate = estimateTimeToEmpty(samples([0, 20], [30, 90], [60, 80], [90, 70]));
+
+      expect(estimate?.ratePerHour).toBeCloseTo(20);
+    });
+
+    it('is null while charging or flat', () => {
+      expect(estimateTimeToEmpty(samples([0, 40], [30, 50]))).toBeNull();
+      expect(estimateTimeToEmpty(samples([0, 40], [30, 40]))).toBeNull();
+    });
+
+    it('is null with too short a run to extrapolate from', () => {
+      expect(estimateTimeToEmpty(samples([0, 60]))).toBeNull();
+      expect(estimateTimeToEmpty(samples([0, 60], [10, 59]))).toBeNull();
+    });
+  });
+
+  describe('addBatterySample', () => {
+    const slot = 15 * MINUTE;
+
+    it('appends a reading in a new slot and drops samples before the cutoff', () => {
+      const history = samples([0, 80], [15, 79]);
+
+      expect(addBatterySample(history, { timestamp: 30 * MINUTE, battery: 78 }, slot, 10 * MINUTE))
+        .toEqual(samples([15, 79], [30, 78]));
+    });
+
+    it('replaces a changed reading in the same slot', () => {
+      const history = samples([0, 80], [15, 79]);
+
+      expect(addBatterySample(history, { timestamp: 20 * MINUTE, battery: 75 }, slot, 0))
+        .toEqual(samples([0, 80], [20, 75]));
+    });
+
+    it('leaves the history alone for an unchanged reading in the same slot or an older one', () => {
+      const history = samples([0, 80], [15, 79]);
+
+      expect(addBatterySample(history, { timestamp: 20 * MINUTE, battery: 79 }, slot, 0)).toBe(history);
+      expect(addBatterySample(history, { timestamp: 15 * MINUTE, battery: 70 }, slot, 0)).toBe(history);
+    });
+  });
+});
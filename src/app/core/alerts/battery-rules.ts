@@ -0,0 +1,135 @@
+import { environment } from '../../../environments/environment';
+import { AlertCandidate } from '../services/alert.service';
+
+export type BatteryLevel = 'ok' | 'low' | 'critical';
+
+export interface BatteryThresholds {
+  low: number; // Percent at or below which the battery is low
+  critical: number;
+}
+
+export interface BatterySample {
+  timestamp: number; // Epoch milliseconds
+  battery: number; // Percent
+}
+
+export interface BatteryEstimate {
+  emptyAt: number; // Epoch milliseconds
+  ratePerHour: number; // Percent lost per hour
+}
+
+export const DEFAULT_BATTERY_THRESHOLDS: BatteryThresholds = {
+  low: environment.alerts.battery.lowPercent,
+  critical: environment.alerts.battery.criticalPercent
+};
+
+export const BATTERY_RULE_IDS: Record<Exclude<BatteryLevel, 'ok'>, string> = {
+  low: 'battery-low',
+  critical: 'battery-critical'
+};
+
+// A shorter discharge run is too noisy to extrapolate from
+const MIN_ESTIMATE_SPAN_MS = 15 * 60 * 1000;
+
+const LEVEL_ORDER: Record<BatteryLevel, number> = { ok: 0, low: 1, critical: 2 };
+
+export function getBatteryLevel(battery: number, thresholds: BatteryThresholds): BatteryLevel {
+  if (battery <= thresholds.critical) return 'critical';
+  if (battery <= thresholds.low) return 'low';
+  return 'ok';
+}
+
+/**
+ * True when `next` is a lower battery level than `previous`; a device seen for
+ * the first time counts as coming from 'ok'
+ */
+export function isBatteryDrop(previous: BatteryLevel | undefined, next: BatteryLevel): boolean {
+  return LEVEL_ORDER[next] > LEVEL_ORDER[previous ?? 'ok'];
+}
+
+/**
+ * Rules whose condition no longer holds at `level`, so their alerts can be
+ * marked back in range
+ */
+export function clearedBatteryRuleIds(level: BatteryLevel): string[] {
+  switch (level) {
+    case 'ok': return [BATTERY_RULE_IDS.low, BATTERY_RULE_IDS.critical];
+    case 'low': return [BATTERY_RULE_IDS.critical];
+    default: return [];
+  }
+}
+
+export function batteryAlert(level: Exclude<BatteryLevel, 'ok'>, battery: number, thresholds: BatteryThresholds): AlertCandidate {
+  const threshold = level === 'critical' ? thresholds.critical : thresholds.low;
+
+  return {
+    ruleId: BATTERY_RULE_IDS[level],
+    category: 'battery',
+    severity: level === 'critical' ? 'critical' : 'warning',
+    title: level === 'critical' ? 'Battery critical' : 'Battery low',
+    message: `Battery at ${battery}% is at or below the ${threshold}% threshold`,
+    value: battery
+  };
+}
+
+/**
+ * Add a reading to a device's history. At most one sample is kept per
+ * `slotMs`, a newer reading in the same slot replacing the older one, and
+ * samples before `cutoff` are dropped, so the history stays bounded however
+ * often the device reports. Returns `samples` itself when nothing changed.
+ */
+export function addBatterySample(samples: BatterySample[], sample: BatterySample, slotMs: number, cutoff: number): BatterySample[] {
+  const last = samples[samples.length - 1];
+  if (last && sample.timestamp <= last.timestamp) {
+    return samples;
+  }
+
+  const sameSlot = !!last && Math.floor(last.timestamp / slotMs) === Math.floor(sample.timestamp / slotMs);
+  if (sameSlot && last.battery === sample.battery) {
+    return samples;
+  }
+
+  const kept = sameSlot ? samples.slice(0, -1) : samples;
+  return [...kept.filter(previous => previous.timestamp >= cutoff), sample];
+}
+
+/**
+ * Extrapolate when the battery runs out from the current discharge run, i.e.
+ * the readings since the battery last went up. Uses a least-squares fit so a
+ * single jumpy reading does not swing the estimate. Returns null while
+ * charging, flat, or with too little history.
+ */
+export function estimateTimeToEmpty(samples: BatterySample[]): BatteryEstimate | null {
+  let start = samples.length - 1;
+  while (start > 0 && samples[start - 1].battery >= samples[start].battery) {
+    start--;
+  }
+
+  const run = samples.slice(start);
+  if (run.length < 2 || run[run.length - 1].timestamp - run[0].timestamp < MIN_ESTIMATE_SPAN_MS) {
+    return null;
+  }
+
+  const origin = run[0].timestamp;
+  const meanX = run.reduce((sum, sample) => sum + (sample.timestamp - origin), 0) / run.length;
+  const meanY = run.reduce((sum, sample) => sum + sample.battery, 0) / run.length;
+
+  let covariance = 0;
+  let variance = 0;
+  run.forEach(sample => {
+    const dx = sample.timestamp - origin - meanX;
+    covariance += dx * (sample.battery - meanY);
+    variance += dx * dx;
+  });
+
+  const slopePerMs = variance > 0 ? covariance / variance : 0;
+  if (slopePerMs >= 0) {
+    return null;
+  }
+
+  const last = run[run.length - 1];
+  return {
+    emptyAt: last.timestamp + last.battery / -slopePerMs,
+    ratePerHour: -slopePerMs * 60 * 60 * 1000
+  };
+}
@@ -0,0 +1,77 @@
+import { DeviceInfoApiData } from '../api/traxbean-api.models';
+import { VitalRule, evaluateVitalRules, vitalReadingTime } from './vital-rules';
+
+describe('evaluateVitalRules', () => {
+  const rules: VitalRule[] = [
+    { id: 'heartrate-high', metric: 'heartrate', comparator: 'above', threshold: 120, severity: 'warning' },
+    { id: 'bloodoxygen-low', metric: 'bloodoxygen', comparator: 'below', threshold: 92, severity: 'critical' },
+    { id: 'temperature-high', metric: 'temperature', comparator: 'above', threshold: 38, severity: 'warning' }
+  ];
+
+  function info(vitals: Partial<DeviceInfoApiData>): DeviceInfoApiData {
+    return {
+      id: 1,
+      firstName: 'Test',
+      lastName: 'Wearer',
+      imei: '123456789012345',
+      lat: 0,
+      lng: 0,
+      battery: 80,
+      strap: 1,
+      signal: 4,
+      heartrate: 70,
+      bloodoxygen: 98,
+      temperature: 36.6,
+      steps: 0,
+      systolic: 0,
+      diastolic: 0,
+      avatar: '',
+      utcTimestamp: '1700000000000',
+      ...vitals
+    };
+  }
+
+  it('checks every rule with a reading and fires none while in range', () => {
+    const evaluation = evaluateVitalRules(info({}), rules);
+
+    expect(evaluation.candidates).toEqual([]);
+    expect(evaluation.checkedRuleIds).toEqual(['heartrate-high', 'bloodoxygen-low', 'temperature-high']);
+  });
+
+  it('fires the rules whose threshold is crossed', () => {
+    const { candidates } = evaluateVitalRules(info({ heartrate: 135, bloodoxygen: 88 }), rules);
+
+    expect(candidates.map(candidate => candidate.ruleId)).toEqual(['heartrate-high', 'bloodoxygen-low']);
+    expect(candidates[0]).toEqual(jasmine.objectContaining({
+      category: 'vital',
+      severity: 'warning',
+      title: 'Heart rate high',
+      value: 135
+    }));
+    expect(candidates[1].severity).toBe('critical');
+  });
+
+  it('does not fire at exactly the threshold', () => {
+    const { candidates } = evaluateVitalRules(info({ heartrate: 120, bloodoxygen: 92 }), rules);
+
+    expect(candidates).toEqual([]);
+  });
+
+  it('skips vitals the watch has not measured', () => {
+    const evaluation = evaluateVitalRules(info({ heartrate: 0, temperature: NaN }), rules);
+
+    expect(evaluation.checkedRuleIds).toEqual(['bloodoxygen-low']);
+  });
+
+  it('stamps candidates with the time of the reading', () => {
+    const { candidates } = evaluateVitalRules(info({ heartrate: 135 }), rules);
+
+    expect(candidates[0].readingAt).toBe(1700000000000);
+  });
+});
+
+describe('vitalReadingTime', () => {
+  it('is null when the record has no usable timestamp', () => {
+    expect(vitalReadingTime({ utcTimestamp: '' } as DeviceInfoApiData)).toBeNull();
+  });
+});
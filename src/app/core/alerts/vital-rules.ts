@@ -0,0 +1,74 @@
+import { environment } from '../../../environments/environment';
+import { DeviceInfoApiData } from '../api/traxbean-api.models';
+import { AlertCandidate, AlertSeverity } from '../services/alert.service';
+
+export type VitalMetric = 'heartrate' | 'bloodoxygen' | 'temperature' | 'systolic' | 'diastolic';
+
+export interface VitalRule {
+  id: string;
+  metric: VitalMetric;
+  comparator: 'above' | 'below';
+  threshold: number;
+  severity: AlertSeverity;
+}
+
+export interface VitalEvaluation {
+  candidates: AlertCandidate[];
+  checkedRuleIds: string[];
+}
+
+export const VITAL_METRICS: Record<VitalMetric, { label: string; unit: string }> = {
+  heartrate: { label: 'Heart rate', unit: 'bpm' },
+  bloodoxygen: { label: 'Blood oxygen', unit: '%' },
+  temperature: { label: 'Temperature', unit: '°C' },
+  systolic: { label: 'Systolic pressure', unit: 'mmHg' },
+  diastolic: { label: 'Diastolic pressure', unit: 'mmHg' }
+};
+
+export const DEFAULT_VITAL_RULES: VitalRule[] = environment.alerts.vitalRules;
+
+/**
+ * Time the watch took the readings of a `getTargetInfo` record, epoch
+ * milliseconds; null when the record has no usable timestamp
+ */
+export function vitalReadingTime(info: DeviceInfoApiData): number | null {
+  const timestamp = parseInt(info.utcTimestamp, 10);
+  return isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * Check one `getTargetInfo` record against the rules. A reading of 0 means
+ * the watch has not measured that vital, so its rules are skipped rather
+ * than reported as a breach or as back in range.
+ */
+export function evaluateVitalRules(info: DeviceInfoApiData, rules: VitalRule[] = DEFAULT_VITAL_RULES): VitalEvaluation {
+  const candidates: AlertCandidate[] = [];
+  const checkedRuleIds: string[] = [];
+  const readingAt = vitalReadingTime(info) ?? undefined;
+
+  rules.forEach(rule => {
+    const value = info[rule.metric];
+    if (typeof value !== 'number' || !isFinite(value) || value === 0) {
+      return;
+    }
+
+    checkedRuleIds.push(rule.id);
+    const breached = rule.comparator === 'above' ? value > rule.threshold : value < rule.threshold;
+    if (!breached) {
+      return;
+    }
+
+    const { label, unit } = VITAL_METRICS[rule.metric];
+    candidates.push({
+      ruleId: rule.id,
+      category: 'vital',
+      severity: rule.severity,
+      title: `${label} ${rule.comparator === 'above' ? 'high' : 'low'}`,
+      message: `${label} ${value} ${unit} is ${rule.comparator} the ${rule.threshold} ${unit} threshold`,
+      value,
+      readingAt
+    });
+  });
+
+  return { candidates, checkedRuleIds };
+}
@@ -0,0 +1,79 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import {
+  ApiResponse,
+  DeviceApiData,
+  DeviceInfoApiData,
+  IndoorLocationApiData,
+  ListTargetRequest,
+  LocationApiData,
+  LoginApiResponse,
+  LoginRequest,
+  PlaybackExistRequest,
+  PlaybackRequest,
+  TrackingRequest
+} from './traxbean-api.models';
+
+/**
+ * Typed client for the Traxbean API.
+ * Each method posts to one endpoint and returns the unwrapped `data` payload.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TraxbeanApiClient {
+  private readonly baseUrl = environment.traxbeanApiUrl;
+
+  constructor(private http: HttpClient) {}
+
+  login(payload: LoginRequest): Observable<LoginApiResponse> {
+    return this.post<LoginApiResponse>('login', payload);
+  }
+
+  listTarget(payload: ListTargetRequest): Observable<DeviceApiData[]> {
+    return this.post<DeviceApiData[]>('listTarget', payload).pipe(
+      map(data => Array.isArray(data) ? data : [])
+    );
+  }
+
+  tracking(payload: TrackingRequest): Observable<LocationApiData[]> {
+    return this.post<LocationApiData[]>('tracking', payload).pipe(
+      map(data => data || [])
+    );
+  }
+
+  getTargetInfo(targetId: number): Observable<DeviceInfoApiData[]> {
+    return this.post<DeviceInfoApiData[]>('getTargetInfo', { targetId }).pipe(
+      map(data => Array.isArray(data) ? data : [])
+    );
+  }
+
+  getGeoLocationLK(targetId: number): Observable<IndoorLocationApiData> {
+    return this.post<IndoorLocationApiData>('getGeoLocationLK', { targetId });
+  }
+
+  playbackExist(payload: PlaybackExistRequest): Observable<number[]> {
+    return this.post<number[]>('playbackExist', payload).pipe(
+      map(data => data || [])
+    );
+  }
+
+  playback(payload: PlaybackRequest): Observable<LocationApiData[]> {
+    return this.post<LocationApiData[]>('playback', payload).pipe(
+      map(data => data || [])
+    );
+  }
+
+  /**
+   * Post to a Traxbean endpoint and unwrap the `{ code, message, data }` envelope.
+   * Failed envelopes never get here: errorInterceptor turns them into an ApiError.
+   */
+  private post<T>(endpoint: string, body: object): Observable<T> {
+    return this.http.post<ApiResponse<T>>(`${this.baseUrl}/app/traxbean/${endpoint}`, body).pipe(
+      map(response => response.data)
+    );
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Traxbean API models
+ *
+ * Request and response shapes for the endpoints described in the Traxbean API document.
+ * Every response is wrapped in an `ApiResponse` envelope; `TraxbeanApiClient` unwraps it.
+ */
+
+// Response envelope shared by every endpoint
+export interface ApiResponse<T> {
+  data: T;
+  code: number;
+  message: string;
+}
+
+// User
+export interface UserContext {
+  id: number;
+  departmentId: number;
+  userType: number;
+  name: string;
+  username: string;
+  nickName: string;
+  headImg: string;
+  email: string;
+  phone: string;
+  status: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+  clientId?: string;
+}
+
+export interface LoginApiResponse {
+  token: string;
+  user: UserContext;
+}
+
+// Targets
+export interface ListTargetRequest {
+  type: number;
+  userId: number;
+}
+
+export interface DeviceApiData {
+  id: number;
+  firstName: string;
+  lastName: string;
+  targetType: number;
+  lat: string | number; // API returns as string
+  lng: string | number; // API returns as string
+  utcTime: string;
+  utcTimestamp: string;
+  battery: number;
+  strap: number | null;
+  avatar: string;
+  icon?: string;
+  imei?: string;
+  model?: string;
+  statusUtctimestamp?: string;
+  serverUrl?: string;
+}
+
+export interface DeviceInfoApiData {
+  id: number;
+  firstName: string;
+  lastName: string;
+  imei: string;
+  lat: number;
+  lng: number;
+  battery: number;
+  strap: number;
+  signal: number;
+  heartrate: number;
+  bloodoxygen: number;
+  temperature: number;
+  steps: number;
+  systolic: number;
+  diastolic: number;
+  avatar: string;
+  utcTimestamp: string;
+}
+
+// Tracking
+export interface TargetRequest {
+  targetId: number;
+}
+
+export interface TrackingRequest {
+  targetId: number;
+  startTime: string; // ISO 8601
+  endTime: string;   // ISO 8601
+}
+
+export interface PlaybackExistRequest {
+  targetId: number;
+  year: number;
+  month: number;
+}
+
+export interface PlaybackRequest extends PlaybackExistRequest {
+  day: number;
+}
+
+export interface LocationApiData {
+  utcTime: string;
+  lat: number;
+  lng: number;
+  speed: number;
+  alt: number;
+  dir: number;
+  timestamp: string;
+  utc: number;
+  heading: number;
+  info: any[];
+}
+
+export interface IndoorLocationApiData {
+  x: number;
+  y: number;
+  utcTime: string;
+  utcTimestamp: string;
+  siteName: string;
+  floorName: string;
+  map: string;
+  height: number;
+  width: number;
+}
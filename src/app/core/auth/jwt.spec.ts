@@ -0,0 +1,49 @@
+import { decodeTokenClaims, decodeTokenExpiry } from './jwt';
+
+describe('JWT helpers', () => {
+  /**
+   * Unsigned token with the given payload, base64url-encoded like a real JWT
+   */
+  function token(payload: object): string {
+    const encode = (value: object) => btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+  }
+
+  beforeEach(() => {
+    spyOn(console, 'error');
+  });
+
+  describe('decodeTokenClaims', () => {
+    it('reads the payload with or without a Bearer prefix', () => {
+      const jwt = token({ uid: 7, iat: 1700000000 });
+
+      expect(decodeTokenClaims(jwt)).toEqual({ uid: 7, iat: 1700000000 });
+      expect(decodeTokenClaims(`Bearer ${jwt}`)).toEqual({ uid: 7, iat: 1700000000 });
+    });
+
+    it('decodes base64url payloads that need padding', () => {
+      // Encodes to 'eyJub3RlIjoiPz8_In0' in base64url: a '_' and one padding character dropped
+      expect<object | null>(decodeTokenClaims(token({ note: '???' }))).toEqual({ note: '???' });
+    });
+
+    it('is null for tokens that are not JWTs', () => {
+      expect(decodeTokenClaims('opaque-session-id')).toBeNull();
+      expect(decodeTokenClaims('header.%%%.signature')).toBeNull();
+    });
+  });
+
+  describe('decodeTokenExpiry', () => {
+    it('uses the exp claim', () => {
+      expect(decodeTokenExpiry(token({ iat: 1700000000, exp: 1700003600 }), 60)).toEqual(new Date(1700003600 * 1000));
+    });
+
+    it('applies the fallback lifetime to tokens that only carry iat', () => {
+      expect(decodeTokenExpiry(token({ iat: 1700000000 }), 60)).toEqual(new Date((1700000000 + 3600) * 1000));
+    });
+
+    it('is null without a usable time claim', () => {
+      expect(decodeTokenExpiry(token({ uid: 7 }), 60)).toBeNull();
+      expect(decodeTokenExpiry('opaque-session-id', 60)).toBeNull();
+    });
+  });
+});
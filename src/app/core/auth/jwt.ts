@@ -0,0 +1,53 @@
+import { environment } from '../../../environments/environment';
+
+// Subset of the JWT payload issued by /app/traxbean/login
+export interface JwtClaims {
+  uid?: number;
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * Decode the payload of a JWT, with or without a `Bearer ` prefix; null when
+ * the token is not a readable JWT. The signature is not checked.
+ */
+export function decodeTokenClaims(token: string): JwtClaims | null {
+  const payload = token.replace(/^Bearer\s+/i, '').split('.')[1];
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
+    return JSON.parse(atob(padded)) as JwtClaims;
+  } catch (error) {
+    console.error('Failed to decode JWT payload:', error);
+    return null;
+  }
+}
+
+/**
+ * Read the expiry from the JWT payload.
+ * Traxbean tokens may only carry `iat`, in which case the fallback lifetime
+ * is applied.
+ */
+export function decodeTokenExpiry(
+  token: string,
+  fallbackLifetimeMinutes: number = environment.session.fallbackLifetimeMinutes
+): Date | null {
+  const claims = decodeTokenClaims(token);
+  if (!claims) {
+    return null;
+  }
+
+  if (typeof claims.exp === 'number') {
+    return new Date(claims.exp * 1000);
+  }
+
+  if (typeof claims.iat === 'number') {
+    return new Date((claims.iat + fallbackLifetimeMinutes * 60) * 1000);
+  }
+
+  return null;
+}
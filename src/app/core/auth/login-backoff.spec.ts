@@ -0,0 +1,25 @@
+import { LoginBackoffOptions, loginLockoutSeconds } from './login-backoff';
+
+describe('loginLockoutSeconds', () => {
+  const options: LoginBackoffOptions = { freeAttempts: 3, backoffBaseSeconds: 5, backoffMaxSeconds: 60 };
+
+  it('does not lock within the free attempts', () => {
+    expect(loginLockoutSeconds(0, 0, options)).toBe(0);
+    expect(loginLockoutSeconds(3, 0, options)).toBe(0);
+  });
+
+  it('doubles the lockout with every further failure', () => {
+    expect([4, 5, 6, 7].map(attempts => loginLockoutSeconds(attempts, 0, options))).toEqual([5, 10, 20, 40]);
+  });
+
+  it('caps the lockout at the maximum', () => {
+    expect(loginLockoutSeconds(8, 0, options)).toBe(60);
+    expect(loginLockoutSeconds(50, 0, options)).toBe(60);
+  });
+
+  it('lets a longer Retry-After win', () => {
+    expect(loginLockoutSeconds(1, 30, options)).toBe(30);
+    expect(loginLockoutSeconds(8, 120, options)).toBe(120);
+    expect(loginLockoutSeconds(6, 10, options)).toBe(20);
+  });
+});
@@ -0,0 +1,24 @@
+import { environment } from '../../../environments/environment';
+
+export interface LoginBackoffOptions {
+  freeAttempts: number; // Failed attempts allowed before backing off
+  backoffBaseSeconds: number; // First lockout; doubles with every further failure
+  backoffMaxSeconds: number;
+}
+
+/**
+ * Seconds to lock the login form after `failedAttempts` rejected logins in a
+ * row: nothing within the free attempts, then exponential backoff up to the
+ * maximum. A server-provided Retry-After wins when it is longer.
+ */
+export function loginLockoutSeconds(
+  failedAttempts: number,
+  retryAfterSeconds = 0,
+  options: LoginBackoffOptions = environment.login
+): number {
+  const excessAttempts = failedAttempts - options.freeAttempts;
+  const backoffSeconds = excessAttempts > 0
+    ? Math.min(options.backoffMaxSeconds, options.backoffBaseSeconds * 2 ** (excessAttempts - 1))
+    : 0;
+  return Math.max(backoffSeconds, retryAfterSeconds);
+}
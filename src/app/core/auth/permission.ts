@@ -0,0 +1,9 @@
+/**
+ * Actions a user can be granted; which user types get which is set under
+ * `permissions` in the environment files
+ */
+export type Permission =
+  | 'device:read'
+  | 'location:read'
+  | 'location:export'
+  | 'cache:clear';
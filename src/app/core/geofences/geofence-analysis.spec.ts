@@ -0,0 +1,73 @@
+import { TimedFix, analyzeGeofenceHistory } from './geofence-analysis';
+import { Geofence } from './geofence-geometry';
+
+describe('analyzeGeofenceHistory', () => {
+  const MINUTE = 60 * 1000;
+  const inside = { lat: 0, lng: 0 };
+  const outside = { lat: 0.01, lng: 0 }; // About 1.1 km north of the centre
+
+  const depot: Geofence = {
+    id: 'depot',
+    name: 'Depot',
+    color: '#2563eb',
+    shape: { type: 'circle', center: { lat: 0, lng: 0 }, radiusMeters: 500 },
+    dwellMinutes: 5,
+    createdAt: 0,
+    updatedAt: 0
+  };
+
+  function track(...positions: ('in' | 'out')[]): TimedFix[] {
+    return positions.map((side, index) => ({
+      position: side === 'in' ? inside : outside,
+      timestamp: index * 10 * MINUTE
+    }));
+  }
+
+  it('turns an entry and an exit into one closed visit', () => {
+    const analysis = analyzeGeofenceHistory(track('out', 'in', 'in', 'out'), [depot]);
+
+    expect(analysis.events.map(event => [event.type, event.index])).toEqual([['enter', 1], ['exit', 3]]);
+    expect(analysis.visits).toEqual([jasmine.objectContaining({
+      enteredAt: 10 * MINUTE,
+      exitedAt: 30 * MINUTE,
+      startedInside: false,
+      startIndex: 1,
+      endIndex: 3,
+      durationMs: 20 * MINUTE
+    })]);
+    expect(analysis.totals).toEqual([{ geofence: depot, visits: 1, durationMs: 20 * MINUTE }]);
+  });
+
+  it('counts a track that starts inside as entering at its first fix', () => {
+    const { visits } = analyzeGeofenceHistory(track('in', 'out'), [depot]);
+
+    expect(visits[0]).toEqual(jasmine.objectContaining({ enteredAt: 0, startedInside: true }));
+  });
+
+  it('leaves the visit open at the last fix when the track ends inside', () => {
+    const { visits } = analyzeGeofenceHistory(track('out', 'in', 'in'), [depot]);
+
+    expect(visits[0]).toEqual(jasmine.objectContaining({ exitedAt: null, endIndex: 2, durationMs: 10 * MINUTE }));
+  });
+
+  it('adds up several visits and does not report dwell events', () => {
+    const analysis = analyzeGeofenceHistory(track('in', 'in', 'out', 'in', 'out'), [depot]);
+
+    expect(analysis.events.map(event => event.type)).toEqual(['enter', 'exit', 'enter', 'exit']);
+    expect(analysis.totals).toEqual([{ geofence: depot, visits: 2, durationMs: 30 * MINUTE }]);
+  });
+
+  it('skips fixes without a valid time or out of order', () => {
+    const fixes: TimedFix[] = [
+      { position: outside, timestamp: 0 },
+      { position: inside, timestamp: NaN },
+      { position: inside, timestamp: 0 },
+      { position: outside, timestamp: 10 * MINUTE }
+    ];
+
+    const analysis = analyzeGeofenceHistory(fixes, [depot]);
+
+    expect(analysis.events).toEqual([]);
+    expect(analysis.totals).toEqual([]);
+  });
+});
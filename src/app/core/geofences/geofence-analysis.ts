@@ -0,0 +1,120 @@
+import { GeofenceDetector } from './geofence-detector';
+import { GeoPoint, Geofence } from './geofence-geometry';
+
+export interface TimedFix {
+  position: GeoPoint;
+  timestamp: number; // Epoch milliseconds
+}
+
+export interface GeofenceHistoryEvent {
+  type: 'enter' | 'exit';
+  geofence: Geofence;
+  timestamp: number;
+  position: GeoPoint;
+  index: number; // Index of the fix in the analysed track
+}
+
+export interface GeofenceVisit {
+  id: string;
+  geofence: Geofence;
+  enteredAt: number;
+  exitedAt: number | null; // null when the track ends inside
+  startedInside: boolean; // The first fix of the track was already inside
+  startIndex: number; // Fix that entered
+  endIndex: number; // Fix that left, or the last fix of the track
+  durationMs: number;
+}
+
+export interface GeofenceTimeInside {
+  geofence: Geofence;
+  visits: number;
+  durationMs: number;
+}
+
+export interface GeofenceAnalysis {
+  events: GeofenceHistoryEvent[];
+  visits: GeofenceVisit[];
+  totals: GeofenceTimeInside[]; // One entry per geofence that was visited, in geofence order
+}
+
+/**
+ * Replays a recorded track against the geofences: entry/exit events, the
+ * visits they delimit and the time spent inside each geofence. Fixes must be
+ * in time order; fixes without a valid time are skipped. A track that starts
+ * inside a geofence counts as entering it at its first fix, and one that ends
+ * inside leaves the visit open at its last fix.
+ */
+export function analyzeGeofenceHistory(fixes: TimedFix[], geofences: Geofence[]): GeofenceAnalysis {
+  const detector = new GeofenceDetector({ enterOnFirstFix: true });
+  const events: GeofenceHistoryEvent[] = [];
+  const visits: GeofenceVisit[] = [];
+  const open = new Map<string, GeofenceHistoryEvent>();
+  let first: number | null = null;
+  let last: { index: number; timestamp: number } | null = null;
+
+  const closeVisit = (entry: GeofenceHistoryEvent, exit: GeofenceHistoryEvent | null, end: { index: number; timestamp: number }) => {
+    visits.push({
+      id: `${entry.geofence.id}-${entry.index}`,
+      geofence: entry.geofence,
+      enteredAt: entry.timestamp,
+      exitedAt: exit?.timestamp ?? null,
+      startedInside: entry.index === first,
+      startIndex: entry.index,
+      endIndex: end.index,
+      durationMs: end.timestamp - entry.timestamp
+    });
+  };
+
+  for (const [index, fix] of fixes.entries()) {
+    if (!Number.isFinite(fix.timestamp) || (last && fix.timestamp <= last.timestamp)) {
+      continue;
+    }
+
+    first ??= index;
+    detector.observe(fix.position, fix.timestamp, geofences).forEach(transition => {
+      if (transition.type === 'dwell') {
+        return;
+      }
+
+      const event: GeofenceHistoryEvent = {
+        type: transition.type,
+        geofence: transition.geofence,
+        timestamp: transition.timestamp,
+        position: transition.position,
+        index
+      };
+      events.push(event);
+
+      if (event.type === 'enter') {
+        open.set(event.geofence.id, event);
+        return;
+      }
+
+      const entry = open.get(event.geofence.id);
+      if (entry) {
+        open.delete(event.geofence.id);
+        closeVisit(entry, event, { index, timestamp: event.timestamp });
+      }
+    });
+    last = { index, timestamp: fix.timestamp };
+  }
+
+  const end = last;
+  if (end) {
+    open.forEach(entry => closeVisit(entry, null, end));
+  }
+  visits.sort((a, b) => a.enteredAt - b.enteredAt);
+
+  const totals = geofences
+    .map(geofence => {
+      const visitsInside = visits.filter(visit => visit.geofence.id === geofence.id);
+      return {
+        geofence,
+        visits: visitsInside.length,
+        durationMs: visitsInside.reduce((sum, visit) => sum + visit.durationMs, 0)
+      };
+    })
+    .filter(total => total.visits > 0);
+
+  return { events, visits, totals };
+}
@@ -0,0 +1,79 @@
+import { GeofenceDetector } from './geofence-detector';
+import { Geofence } from './geofence-geometry';
+
+describe('GeofenceDetector', () => {
+  const MINUTE = 60 * 1000;
+  const inside = { lat: 0, lng: 0 };
+  const outside = { lat: 0.01, lng: 0 }; // About 1.1 km north of the centre
+
+  function circle(overrides: Partial<Geofence> = {}): Geofence {
+    return {
+      id: 'depot',
+      name: 'Depot',
+      color: '#2563eb',
+      shape: { type: 'circle', center: { lat: 0, lng: 0 }, radiusMeters: 500 },
+      dwellMinutes: 0,
+      createdAt: 0,
+      updatedAt: 0,
+      ...overrides
+    };
+  }
+
+  it('does not report the first fix of live data', () => {
+    const detector = new GeofenceDetector();
+
+    expect(detector.observe(inside, 1000, [circle()])).toEqual([]);
+    expect(detector.isInside('depot')).toBeTrue();
+  });
+
+  it('reports enter on the first fix when asked to', () => {
+    const detector = new GeofenceDetector({ enterOnFirstFix: true });
+
+    expect(detector.observe(inside, 1000, [circle()]).map(transition => transition.type)).toEqual(['enter']);
+  });
+
+  it('reports exit and enter as the device crosses the boundary', () => {
+    const detector = new GeofenceDetector();
+    const geofences = [circle()];
+
+    detector.observe(inside, 1000, geofences);
+    const exit = detector.observe(outside, 2000, geofences);
+    const enter = detector.observe(inside, 3000, geofences);
+
+    expect(exit).toEqual([{ type: 'exit', geofence: geofences[0], timestamp: 2000, position: outside }]);
+    expect(enter.map(transition => transition.type)).toEqual(['enter']);
+  });
+
+  it('ignores repeated and older fixes', () => {
+    const detector = new GeofenceDetector();
+    const geofences = [circle()];
+
+    detector.observe(inside, 2000, geofences);
+
+    expect(detector.observe(outside, 2000, geofences)).toEqual([]);
+    expect(detector.observe(outside, 1000, geofences)).toEqual([]);
+    expect(detector.isInside('depot')).toBeTrue();
+  });
+
+  it('reports dwell once after the dwell time inside', () => {
+    const detector = new GeofenceDetector({ enterOnFirstFix: true });
+    const geofences = [circle({ dwellMinutes: 10 })];
+
+    detector.observe(inside, 0, geofences);
+
+    expect(detector.observe(inside, 9 * MINUTE, geofences)).toEqual([]);
+    expect(detector.observe(inside, 10 * MINUTE, geofences).map(transition => transition.type)).toEqual(['dwell']);
+    expect(detector.observe(inside, 20 * MINUTE, geofences)).toEqual([]);
+  });
+
+  it('does not report a transition after forgetting a geofence whose shape changed', () => {
+    const detector = new GeofenceDetector();
+
+    detector.observe(inside, 1000, [circle()]);
+    detector.forget('depot');
+    const moved = circle({ shape: { type: 'circle', center: outside, radiusMeters: 500 } });
+
+    expect(detector.observe(inside, 2000, [moved])).toEqual([]);
+    expect(detector.isInside('depot')).toBeFalse();
+  });
+});
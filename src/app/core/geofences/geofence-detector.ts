@@ -0,0 +1,84 @@
+import { GeoPoint, Geofence, containsPoint } from './geofence-geometry';
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface GeofenceTransition {
+  type: GeofenceEventType;
+  geofence: Geofence;
+  timestamp: number; // Fix time, epoch milliseconds
+  position: GeoPoint;
+}
+
+export interface GeofenceDetectorOptions {
+  /**
+   * Report 'enter' when the first fix is already inside. Off for live data,
+   * where the first fix says nothing about when the device arrived.
+   */
+  enterOnFirstFix?: boolean;
+}
+
+interface Membership {
+  inside: boolean;
+  since: number; // Fix time the device was first seen on this side
+  dwellReported: boolean;
+}
+
+/**
+ * Turns one device's successive fixes into enter/exit/dwell transitions.
+ * Fixes must be fed in time order; older or repeated fixes are ignored.
+ */
+export class GeofenceDetector {
+  private memberships = new Map<string, Membership>();
+  private lastTimestamp: number | null = null;
+
+  constructor(private options: GeofenceDetectorOptions = {}) {}
+
+  observe(position: GeoPoint, timestamp: number, geofences: Geofence[]): GeofenceTransition[] {
+    if (this.lastTimestamp !== null && timestamp <= this.lastTimestamp) {
+      return [];
+    }
+    this.lastTimestamp = timestamp;
+
+    const transitions: GeofenceTransition[] = [];
+    const activeIds = new Set<string>();
+
+    geofences.forEach(geofence => {
+      activeIds.add(geofence.id);
+      const inside = containsPoint(geofence.shape, position);
+      const membership = this.memberships.get(geofence.id);
+
+      if (!membership || membership.inside !== inside) {
+        this.memberships.set(geofence.id, { inside, since: timestamp, dwellReported: false });
+        if (membership || (inside && this.options.enterOnFirstFix)) {
+          transitions.push({ type: inside ? 'enter' : 'exit', geofence, timestamp, position });
+        }
+        return;
+      }
+
+      const dwellMs = geofence.dwellMinutes * 60 * 1000;
+      if (inside && dwellMs > 0 && !membership.dwellReported && timestamp - membership.since >= dwellMs) {
+        membership.dwellReported = true;
+        transitions.push({ type: 'dwell', geofence, timestamp, position });
+      }
+    });
+
+    // Forget geofences that were deleted
+    [...this.memberships.keys()]
+      .filter(id => !activeIds.has(id))
+      .forEach(id => this.memberships.delete(id));
+
+    return transitions;
+  }
+
+  /**
+   * Drop what is known about one geofence, e.g. after its shape changed; the
+   * next fix sets its side again without reporting a transition
+   */
+  forget(geofenceId: string): void {
+    this.memberships.delete(geofenceId);
+  }
+
+  isInside(geofenceId: string): boolean {
+    return this.memberships.get(geofenceId)?.inside ?? false;
+  }
+}
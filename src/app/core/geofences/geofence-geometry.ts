@@ -0,0 +1,88 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface CircleShape {
+  type: 'circle';
+  center: GeoPoint;
+  radiusMeters: number;
+}
+
+export interface PolygonShape {
+  type: 'polygon';
+  path: GeoPoint[]; // Open ring; the last vertex connects back to the first
+}
+
+export type GeofenceShape = CircleShape | PolygonShape;
+
+export interface Geofence {
+  id: string;
+  name: string;
+  color: string;
+  shape: GeofenceShape;
+  dwellMinutes: number; // Time inside before a dwell event; 0 disables dwell events
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const GEOFENCE_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2'];
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+/**
+ * Great-circle distance in meters
+ */
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export function containsPoint(shape: GeofenceShape, point: GeoPoint): boolean {
+  return shape.type === 'circle'
+    ? distanceMeters(shape.center, point) <= shape.radiusMeters
+    : polygonContains(shape.path, point);
+}
+
+/**
+ * Ray casting on plain lat/lng; accurate enough for geofences that are small
+ * compared to the earth and do not cross the antimeridian
+ */
+export function polygonContains(path: GeoPoint[], point: GeoPoint): boolean {
+  if (path.length < 3) {
+    return false;
+  }
+
+  let inside = false;
+  for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+    const a = path[i];
+    const b = path[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a stored shape is usable, e.g. after loading it from an adapter
+ */
+export function isValidShape(shape: GeofenceShape | null | undefined): shape is GeofenceShape {
+  if (!shape) {
+    return false;
+  }
+  if (shape.type === 'circle') {
+    return isValidPoint(shape.center) && shape.radiusMeters > 0;
+  }
+  return shape.type === 'polygon' && Array.isArray(shape.path) && shape.path.length >= 3 && shape.path.every(isValidPoint);
+}
+
+function isValidPoint(point: GeoPoint | null | undefined): boolean {
+  return !!point && Number.isFinite(point.lat) && Number.isFinite(point.lng);
+}
@@ -0,0 +1,87 @@
+import { InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, defer, map, of } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { Geofence } from './geofence-geometry';
+
+/**
+ * Persistence for the geofences of an account
+ */
+export interface GeofenceStore {
+  load(accountId: string): Observable<Geofence[]>;
+  save(accountId: string, geofences: Geofence[]): Observable<void>;
+  /**
+   * Drop data of accounts that are no longer signed in; stores that keep
+   * nothing on this device need not implement it
+   */
+  retainAccounts?(accountIds: string[]): void;
+}
+
+/**
+ * Keeps geofences in this browser only
+ */
+export class LocalStorageGeofenceStore implements GeofenceStore {
+  private readonly storageKeyPrefix = 'traxbean_geofences';
+
+  load(accountId: string): Observable<Geofence[]> {
+    return defer(() => {
+      try {
+        const stored = JSON.parse(localStorage.getItem(this.storageKey(accountId)) ?? '[]');
+        return of(Array.isArray(stored) ? stored : []);
+      } catch {
+        return of([]);
+      }
+    });
+  }
+
+  save(accountId: string, geofences: Geofence[]): Observable<void> {
+    return defer(() => {
+      localStorage.setItem(this.storageKey(accountId), JSON.stringify(geofences));
+      return of(undefined);
+    });
+  }
+
+  retainAccounts(accountIds: string[]): void {
+    const retained = new Set(accountIds.map(accountId => this.storageKey(accountId)));
+
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(`${this.storageKeyPrefix}:`) && !retained.has(key))
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  private storageKey(accountId: string): string {
+    return `${this.storageKeyPrefix}:${accountId}`;
+  }
+}
+
+/**
+ * Shares geofences between users of an account through a backend that
+ * stores the whole list per account
+ */
+export class HttpGeofenceStore implements GeofenceStore {
+  constructor(private http: HttpClient, private endpoint: string) {}
+
+  load(accountId: string): Observable<Geofence[]> {
+    return this.http.get<Geofence[] | null>(this.url(accountId)).pipe(map(geofences => geofences ?? []));
+  }
+
+  save(accountId: string, geofences: Geofence[]): Observable<void> {
+    return this.http.put(this.url(accountId), geofences).pipe(map(() => undefined));
+  }
+
+  private url(accountId: string): string {
+    return `${this.endpoint.replace(/\/+$/, '')}/${encodeURIComponent(accountId)}`;
+  }
+}
+
+export const GEOFENCE_STORE = new InjectionToken<GeofenceStore>('GEOFENCE_STORE', {
+  providedIn: 'root',
+  factory: () => {
+    const { store, endpoint } = environment.geofences;
+
+    if (store === 'http' && endpoint) {
+      return new HttpGeofenceStore(inject(HttpClient), endpoint);
+    }
+    return new LocalStorageGeofenceStore();
+  }
+});
@@ -1,9 +1,15 @@
 import { Injectable } from '@angular/core';
-import { CanActivate, Router, UrlTree } from '@angular/router';
+import { ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
 import { Observable } from 'rxjs';
 import { map, take } from 'rxjs/operators';
 import { AuthService } from '../services/auth.service';
 
+// Query parameter used to carry the originally requested URL through the login page
+export const RETURN_URL_PARAM = 'returnUrl';
+
+// Query parameter that opens the login page to add another account to the current session
+export const ADD_ACCOUNT_PARAM = 'addAccount';
+
 @Injectable({
   providedIn: 'root'
 })
@@ -13,15 +19,17 @@ export class AuthGuard implements CanActivate {
     private router: Router
   ) {}
 
-  canActivate(): Observable<boolean | UrlTree> {
+  canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> {
     return this.authService.isAuthenticated$.pipe(
       take(1),
       map(isAuthenticated => {
         if (isAuthenticated) {
           return true;
         } else {
-          // Redirect to login page
-          return this.router.createUrlTree(['/login']);
+          // Redirect to login page, remembering the deep link
+          return this.router.createUrlTree(['/login'], {
+            queryParams: { [RETURN_URL_PARAM]: state.url }
+          });
         }
       })
     );
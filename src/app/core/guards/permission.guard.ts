@@ -0,0 +1,48 @@
+import { Injectable } from '@angular/core';
+import { ActivatedRouteSnapshot, CanActivate, CanActivateChild, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { Observable } from 'rxjs';
+import { map, take } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+import { RETURN_URL_PARAM } from './auth.guard';
+import { Permission, PermissionService } from '../services/permission.service';
+
+/**
+ * Enforces `route.data.permissions`. Routes without permissions are allowed.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionGuard implements CanActivate, CanActivateChild {
+  constructor(
+    private authService: AuthService,
+    private permissionService: PermissionService,
+    private router: Router
+  ) {}
+
+  canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> {
+    const required: Permission[] = route.data['permissions'] || [];
+
+    return this.authService.isAuthenticated$.pipe(
+      take(1),
+      map(isAuthenticated => {
+        if (!isAuthenticated) {
+          return this.router.createUrlTree(['/login'], {
+            queryParams: { [RETURN_URL_PARAM]: state.url }
+          });
+        }
+
+        if (required.length === 0 || this.permissionService.hasPermission(required)) {
+          return true;
+        }
+
+        return this.router.createUrlTree(['/access-denied'], {
+          queryParams: { from: state.url, required: required.join(',') }
+        });
+      })
+    );
+  }
+
+  canActivateChild(childRoute: ActivatedRouteSnapshot, state: RouterStateSnapshot): Observable<boolean | UrlTree> {
+    return this.canActivate(childRoute, state);
+  }
+}
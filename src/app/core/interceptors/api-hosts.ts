@@ -0,0 +1,45 @@
+import { environment } from '../../../environments/environment';
+
+const ABSOLUTE_URL = /^([a-z][a-z\d+\-.]*:)?\/\//i;
+
+const apiHostPatterns = Array.from(new Set(
+  [environment.traxbeanApiUrl, ...environment.authorizedApiHosts]
+    .map(entry => entry.trim().replace(/\/+$/, ''))
+    .filter(Boolean)
+));
+
+/**
+ * Whether a request targets one of the configured Traxbean API hosts.
+ * Relative URLs only match path-prefix entries; absolute URLs match origin
+ * entries (optionally with a path) or bare host / host:port entries.
+ */
+export function isApiRequest(url: string): boolean {
+  if (!ABSOLUTE_URL.test(url)) {
+    return apiHostPatterns.some(pattern => pattern.startsWith('/') && hasPathPrefix(url, pattern));
+  }
+
+  let target: URL;
+  try {
+    target = new URL(url, window.location.href);
+  } catch {
+    return false;
+  }
+
+  return apiHostPatterns.some(pattern => {
+    if (pattern.startsWith('/')) {
+      return false;
+    }
+
+    if (ABSOLUTE_URL.test(pattern)) {
+      const base = new URL(pattern, window.location.href);
+      return base.origin === target.origin && hasPathPrefix(target.pathname, base.pathname.replace(/\/+$/, ''));
+    }
+
+    const host = pattern.toLowerCase();
+    return target.host === host || target.hostname === host;
+  });
+}
+
+function hasPathPrefix(path: string, prefix: string): boolean {
+  return !prefix || path === prefix || path.startsWith(`${prefix}/`) || path.startsWith(`${prefix}?`);
+}
@@ -1,36 +1,79 @@
-import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
+import { HttpInterceptorFn, HttpErrorResponse, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { catchError, throwError } from 'rxjs';
-import { AuthService } from '../services/auth.service';
+import { catchError, switchMap, throwError } from 'rxjs';
+import { AuthenticationError, AuthService } from '../services/auth.service';
 import { Router } from '@angular/router';
+import { RETURN_URL_PARAM } from '../guards/auth.guard';
+import { isApiRequest } from './api-hosts';
 
 export const authInterceptor: HttpInterceptorFn = (req, next) => {
   const authService = inject(AuthService);
   const router = inject(Router);
   const token = authService.getToken();
+  // The account the request is sent for; it may no longer be active when the response arrives
+  const accountId = authService.getActiveAccountId();
 
   // Clone request with proper headers for Traxbean API requests
-  if (req.url.includes('napi.5gcity.com')) {
-    let headers = req.headers.set('Content-Type', 'application/json');
-    
-    // Add authorization header if token exists and not login request
-    if (token && !req.url.includes('/login')) {
-      headers = headers.set('Authorization', `${token}`);
-    }
+  if (isApiRequest(req.url)) {
+    const isLoginRequest = req.url.includes('/login');
+
+    const withHeaders = (request: HttpRequest<unknown>, authToken: string | null) => {
+      let headers = request.headers.set('Content-Type', 'application/json');
+
+      // Add authorization header if token exists and not login request
+      if (authToken && !isLoginRequest) {
+        headers = headers.set('Authorization', `${authToken}`);
+      }
+
+      return request.clone({
+        headers: headers
+      });
+    };
 
-    const authReq = req.clone({
-      headers: headers
-    });
+    const endSession = () => {
+      // Only this account's session is over; another signed-in account takes over if there is one
+      const returnUrl = router.url;
+      if (authService.signOutAccount(accountId)) {
+        return;
+      }
+      // Keep the page the user was on so login can bring them back to it
+      router.navigate(['/login'], {
+        queryParams: returnUrl.startsWith('/login') ? {} : { [RETURN_URL_PARAM]: returnUrl }
+      });
+    };
 
-    return next(authReq).pipe(
+    // Only a refresh the server turned down ends the session; a network drop,
+    // timeout or outage fails this request and keeps the account signed in
+    const failRefresh = (error: unknown) => {
+      if (error instanceof AuthenticationError && (error.code === 'INVALID_CREDENTIALS' || error.code === 'ACCESS_DENIED')) {
+        endSession();
+      }
+      return throwError(() => error);
+    };
+
+    // Hold requests while the session is being renewed (or is already stale)
+    // so they go out with the fresh token instead of failing with a 401
+    if (!isLoginRequest && token && authService.canRefreshSession() &&
+        (authService.isRefreshing() || authService.isTokenExpired())) {
+      return authService.refreshSession().pipe(
+        catchError(failRefresh),
+        switchMap(freshToken => next(withHeaders(req, freshToken)))
+      );
+    }
+
+    return next(withHeaders(req, token)).pipe(
       catchError((error: HttpErrorResponse) => {
-        console.error('Interceptor: Request failed', error);
-        
         // Handle authentication errors
-        if (error.status === 401 && !req.url.includes('/login')) {
-          // Token expired or invalid, logout and redirect
-          authService.logout();
-          router.navigate(['/login']);
+        if (error.status === 401 && !isLoginRequest) {
+          // Token expired or invalid: try to renew once, then give up
+          if (authService.canRefreshSession()) {
+            return authService.refreshSession().pipe(
+              catchError(failRefresh),
+              switchMap(freshToken => next(withHeaders(req, freshToken)))
+            );
+          }
+
+          endSession();
         }
         return throwError(() => error);
       })
@@ -38,4 +81,4 @@ export const authInterceptor: HttpInterceptorFn = (req, next) => {
   }
 
   return next(req);
-}; 
\ No newline at end of file
+};
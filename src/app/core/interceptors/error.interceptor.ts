@@ -0,0 +1,31 @@
+import { HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, map, throwError } from 'rxjs';
+import { ErrorHandlerService } from '../services/error-handler.service';
+import { isApiRequest } from './api-hosts';
+
+/**
+ * Converts every HTTP failure into an ApiError, including Traxbean responses
+ * that succeed at the HTTP level but carry a non-200 `code` in their envelope.
+ * Registered before authInterceptor so 401 handling still sees the raw response.
+ */
+export const errorInterceptor: HttpInterceptorFn = (req, next) => {
+  const errorHandler = inject(ErrorHandlerService);
+  const checkEnvelope = isApiRequest(req.url);
+
+  return next(req).pipe(
+    map(event => {
+      if (checkEnvelope && event instanceof HttpResponse && isFailedEnvelope(event.body)) {
+        throw errorHandler.fromEnvelope(event.body, event.url ?? req.url);
+      }
+      return event;
+    }),
+    catchError(error => throwError(() => errorHandler.handleApiError(error)))
+  );
+};
+
+function isFailedEnvelope(body: unknown): body is { code: number; message?: string } {
+  return typeof body === 'object' && body !== null &&
+    typeof (body as { code?: unknown }).code === 'number' &&
+    (body as { code: number }).code !== 200;
+}
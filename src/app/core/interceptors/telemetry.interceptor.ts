@@ -0,0 +1,32 @@
+import { HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { tap } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { TelemetryService } from '../services/telemetry.service';
+
+/**
+ * Reports failed and slow HTTP calls.
+ * Registered first so it sees the ApiError produced by errorInterceptor.
+ */
+export const telemetryInterceptor: HttpInterceptorFn = (req, next) => {
+  const telemetry = inject(TelemetryService);
+  const startedAt = performance.now();
+
+  return next(req).pipe(
+    tap({
+      next: event => {
+        if (event instanceof HttpResponse) {
+          const durationMs = performance.now() - startedAt;
+          if (durationMs >= environment.telemetry.slowRequestThresholdMs) {
+            telemetry.trackSlowRequest(req.method, req.url, durationMs, event.status);
+          }
+        }
+      },
+      error: error => telemetry.trackError(error, {
+        source: 'http',
+        method: req.method,
+        durationMs: Math.round(performance.now() - startedAt)
+      })
+    })
+  );
+};
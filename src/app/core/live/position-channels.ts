@@ -0,0 +1,152 @@
+import { HttpClient } from '@angular/common/http';
+import { InjectionToken, inject } from '@angular/core';
+import { Observable, map, of, switchMap } from 'rxjs';
+import { environment } from '../../../environments/environment';
+
+export type LivePositionTransport = 'websocket' | 'sse' | 'polling';
+
+/**
+ * One position report pushed by the server. Field names follow `listTarget`
+ * so the same payload shape can be reused by the backend.
+ */
+export interface LivePositionUpdate {
+  targetId: number | string;
+  lat: number | string;
+  lng: number | string;
+  utcTime?: number | string; // Epoch milliseconds or an ISO date
+  speed?: number;
+  heading?: number;
+  altitude?: number;
+  battery?: number;
+  strap?: number | null;
+}
+
+/**
+ * First message a WebSocket client sends after connecting. Browsers cannot set
+ * headers on a WebSocket, and the token must not end up in a URL where access
+ * logs, proxies and history would keep it.
+ */
+export interface PositionAuthMessage {
+  type: 'auth';
+  token: string;
+}
+
+/**
+ * Push connection delivering position updates.
+ * `connect` emits an empty batch once the connection is open, then one batch
+ * per message, and errors when the connection fails or is closed.
+ */
+export interface PositionChannel {
+  readonly transport: LivePositionTransport;
+  connect(token: string | null): Observable<LivePositionUpdate[]>;
+}
+
+export class WebSocketPositionChannel implements PositionChannel {
+  readonly transport = 'websocket';
+
+  constructor(private url: string) {}
+
+  connect(token: string | null): Observable<LivePositionUpdate[]> {
+    return new Observable<LivePositionUpdate[]>(subscriber => {
+      const socket = new WebSocket(this.url);
+
+      socket.onopen = () => {
+        if (token) {
+          const auth: PositionAuthMessage = { type: 'auth', token };
+          socket.send(JSON.stringify(auth));
+        }
+        subscriber.next([]);
+      };
+      socket.onmessage = event => subscriber.next(parsePositionMessage(event.data));
+      socket.onerror = () => subscriber.error(new Error('Live position socket failed'));
+      socket.onclose = () => subscriber.error(new Error('Live position socket closed'));
+
+      return () => {
+        socket.onclose = null;
+        socket.close();
+      };
+    });
+  }
+}
+
+/**
+ * EventSource cannot send headers either, so the bearer token is first
+ * exchanged for a short-lived, single-use ticket at `ticketUrl`; only that
+ * ticket goes into the stream URL.
+ */
+export class EventSourcePositionChannel implements PositionChannel {
+  readonly transport = 'sse';
+
+  constructor(
+    private url: string,
+    private ticketUrl: string,
+    private http: HttpClient
+  ) {}
+
+  connect(token: string | null): Observable<LivePositionUpdate[]> {
+    const streamUrl$ = token
+      ? this.http.post<{ ticket: string }>(this.ticketUrl, null, { headers: { Authorization: token } }).pipe(
+          map(({ ticket }) => withTicket(this.url, ticket))
+        )
+      : of(this.url);
+
+    return streamUrl$.pipe(switchMap(streamUrl => this.open(streamUrl)));
+  }
+
+  private open(streamUrl: string): Observable<LivePositionUpdate[]> {
+    return new Observable<LivePositionUpdate[]>(subscriber => {
+      const source = new EventSource(streamUrl);
+
+      source.onopen = () => subscriber.next([]);
+      source.onmessage = event => subscriber.next(parsePositionMessage(event.data));
+      // EventSource would reconnect on its own; LivePositionService owns that decision instead
+      source.onerror = () => subscriber.error(new Error('Live position event stream failed'));
+
+      return () => source.close();
+    });
+  }
+}
+
+/**
+ * Accepts a single update or an array of them. Malformed messages and entries
+ * without a target or coordinates are dropped rather than closing the channel.
+ */
+export function parsePositionMessage(data: unknown): LivePositionUpdate[] {
+  let payload: unknown;
+  try {
+    payload = typeof data === 'string' ? JSON.parse(data) : data;
+  } catch {
+    return [];
+  }
+
+  const entries = Array.isArray(payload) ? payload : [payload];
+  return entries.filter((entry): entry is LivePositionUpdate =>
+    typeof entry === 'object' && entry !== null &&
+    (entry as LivePositionUpdate).targetId !== undefined &&
+    (entry as LivePositionUpdate).lat !== undefined &&
+    (entry as LivePositionUpdate).lng !== undefined
+  );
+}
+
+function withTicket(url: string, ticket: string): string {
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}ticket=${encodeURIComponent(ticket)}`;
+}
+
+/**
+ * The configured push channel, or null when live positions use polling only
+ */
+export const POSITION_CHANNEL = new InjectionToken<PositionChannel | null>('POSITION_CHANNEL', {
+  providedIn: 'root',
+  factory: () => {
+    const { transport, url, ticketUrl } = environment.livePositions;
+
+    if (transport === 'websocket' && url) {
+      return new WebSocketPositionChannel(url);
+    }
+    if (transport === 'sse' && url && ticketUrl) {
+      return new EventSourcePositionChannel(url, ticketUrl, inject(HttpClient));
+    }
+    return null;
+  }
+});
@@ -0,0 +1,90 @@
+import { Observable, defer, of, take, throwError } from 'rxjs';
+import { TestScheduler } from 'rxjs/testing';
+import { AdaptivePoller, AdaptivePollerOptions } from './adaptive-poller';
+
+describe('AdaptivePoller', () => {
+  let scheduler: TestScheduler;
+
+  const options: AdaptivePollerOptions<number> = {
+    intervalMs: 10,
+    maxIntervalMs: 40,
+    pauseWhenHidden: false
+  };
+
+  /**
+   * Request that answers from `outcomes` in turn; an Error outcome fails
+   */
+  function requestFrom(outcomes: (number | Error)[]): () => Observable<number> {
+    let call = 0;
+    return () => defer(() => {
+      const outcome = outcomes[Math.min(call++, outcomes.length - 1)];
+      return outcome instanceof Error ? throwError(() => outcome) : of(outcome);
+    });
+  }
+
+  beforeEach(() => {
+    scheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+  });
+
+  it('waits one interval before the first request and repeats on the interval', () => {
+    scheduler.run(({ expectObservable }) => {
+      const poller = new AdaptivePoller(requestFrom([1, 2, 3]), options);
+      expectObservable(poller.run().pipe(take(3))).toBe('10ms a 9ms b 9ms (c|)', { a: 1, b: 2, c: 3 });
+    });
+  });
+
+  it('backs off exponentially after errors, up to the maximum interval', () => {
+    const errors: unknown[] = [];
+    const streak: number[] = [];
+    const failure = new Error('offline');
+
+    scheduler.run(({ expectObservable }) => {
+      const poller = new AdaptivePoller(requestFrom([failure, failure, failure, 7]), {
+        ...options,
+        onError: (error, consecutiveErrors) => {
+          errors.push(error);
+          streak.push(consecutiveErrors);
+        }
+      });
+      // Requests at 10, then 10 + 20, then 30 + 40, then 70 + 40 (capped)
+      expectObservable(poller.run().pipe(take(1))).toBe('110ms (a|)', { a: 7 });
+    });
+
+    expect(errors).toEqual([failure, failure, failure]);
+    expect(streak).toEqual([1, 2, 3]);
+  });
+
+  it('resets the backoff after a successful request', () => {
+    scheduler.run(({ expectObservable }) => {
+      const poller = new AdaptivePoller(requestFrom([new Error('offline'), 1, 2]), options);
+      expectObservable(poller.run().pipe(take(2))).toBe('30ms a 9ms (b|)', { a: 1, b: 2 });
+    });
+  });
+
+  it('uses the fast interval while the last result was active', () => {
+    scheduler.run(({ expectObservable }) => {
+      const poller = new AdaptivePoller(requestFrom([1, 2, 3]), {
+        ...options,
+        fastIntervalMs: 2,
+        isActive: result => result === 1
+      });
+      expectObservable(poller.run().pipe(take(3))).toBe('10ms a 1ms b 9ms (c|)', { a: 1, b: 2, c: 3 });
+    });
+  });
+
+  it('reports the next refresh time and the interval in its state', () => {
+    scheduler.run(() => {
+      const poller = new AdaptivePoller(requestFrom([new Error('offline'), 1]), options);
+      poller.run().pipe(take(1)).subscribe();
+
+      scheduler.schedule(() => {
+        expect(poller.getState()).toEqual(jasmine.objectContaining({
+          intervalMs: 20,
+          consecutiveErrors: 1,
+          paused: false,
+          nextRefreshAt: jasmine.any(Number)
+        }));
+      }, 15);
+    });
+  });
+});
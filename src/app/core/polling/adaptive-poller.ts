@@ -0,0 +1,169 @@
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  catchError,
+  defer,
+  distinctUntilChanged,
+  fromEvent,
+  map,
+  mergeMap,
+  of,
+  repeat,
+  startWith,
+  switchMap,
+  timer
+} from 'rxjs';
+
+export interface AdaptivePollerOptions<T> {
+  intervalMs: number; // Normal interval
+  fastIntervalMs?: number; // Used while `isActive` reports activity
+  maxIntervalMs: number; // Upper bound for the error backoff
+  backoffMultiplier?: number; // Interval growth per consecutive error (default 2)
+  pauseWhenHidden?: boolean; // Stop polling while the document is hidden (default true)
+  isActive?: (result: T) => boolean;
+  onError?: (error: unknown, consecutiveErrors: number) => void; // 1 for the first error of a streak
+}
+
+export interface PollerState {
+  intervalMs: number;
+  nextRefreshAt: number | null; // Epoch ms; null while paused or while a request is running
+  paused: boolean;
+  consecutiveErrors: number;
+}
+
+/**
+ * Repeats a request on an interval that adapts to what it sees: it pauses in
+ * hidden tabs (refreshing as soon as the tab is visible again), backs off
+ * exponentially after consecutive errors and switches to the fast interval
+ * while the last result was active. Errors never end the stream; they are
+ * passed to `onError` and counted towards the backoff.
+ */
+export class AdaptivePoller<T> {
+  private readonly stateSubject: BehaviorSubject<PollerState>;
+
+  public readonly state$: Observable<PollerState>;
+
+  private consecutiveErrors = 0;
+  private lastActive = false;
+
+  constructor(
+    private request: () => Observable<T>,
+    private options: AdaptivePollerOptions<T>
+  ) {
+    this.stateSubject = new BehaviorSubject<PollerState>({
+      intervalMs: options.intervalMs,
+      nextRefreshAt: null,
+      paused: false,
+      consecutiveErrors: 0
+    });
+    this.state$ = this.stateSubject.asObservable();
+  }
+
+  /**
+   * Emits every successful result. The first request waits one interval,
+   * callers are expected to have loaded the initial data themselves.
+   */
+  run(): Observable<T> {
+    return defer(() => {
+      this.consecutiveErrors = 0;
+      this.lastActive = false;
+      let resumed = false;
+
+      return this.visibility().pipe(
+        switchMap(visible => {
+          if (!visible) {
+            this.updateState({ paused: true, nextRefreshAt: null });
+            resumed = true;
+            return EMPTY;
+          }
+
+          const delayMs = resumed ? 0 : this.currentInterval();
+          resumed = true;
+          return this.schedule(delayMs);
+        })
+      );
+    });
+  }
+
+  getState(): PollerState {
+    return this.stateSubject.value;
+  }
+
+  /**
+   * Waits `delayMs`, then polls in a flat loop: each cycle completes before
+   * `repeat` subscribes the next one after the current interval
+   */
+  private schedule(delayMs: number): Observable<T> {
+    return this.wait(delayMs).pipe(
+      switchMap(() => this.poll().pipe(
+        repeat({ delay: () => this.wait(this.currentInterval()) })
+      ))
+    );
+  }
+
+  private wait(delayMs: number): Observable<0> {
+    return defer(() => {
+      this.updateState({ paused: false, nextRefreshAt: Date.now() + delayMs });
+      return timer(delayMs);
+    });
+  }
+
+  /**
+   * One request; emits its result, or nothing when it failed
+   */
+  private poll(): Observable<T> {
+    return defer(() => {
+      this.updateState({ nextRefreshAt: null });
+      return this.request().pipe(
+        map(result => ({ ok: true as const, result })),
+        catchError(error => of({ ok: false as const, error }))
+      );
+    }).pipe(
+      mergeMap(outcome => {
+        if (outcome.ok) {
+          this.consecutiveErrors = 0;
+          this.lastActive = this.options.isActive?.(outcome.result) ?? false;
+          return of(outcome.result);
+        }
+
+        this.consecutiveErrors++;
+        this.options.onError?.(outcome.error, this.consecutiveErrors);
+        return EMPTY;
+      })
+    );
+  }
+
+  private currentInterval(): number {
+    const { intervalMs, fastIntervalMs, maxIntervalMs, backoffMultiplier = 2 } = this.options;
+
+    if (this.consecutiveErrors > 0) {
+      return Math.min(intervalMs * Math.pow(backoffMultiplier, this.consecutiveErrors), maxIntervalMs);
+    }
+    if (this.lastActive && fastIntervalMs) {
+      return Math.min(fastIntervalMs, intervalMs);
+    }
+    return intervalMs;
+  }
+
+  private visibility(): Observable<boolean> {
+    if (this.options.pauseWhenHidden === false || typeof document === 'undefined') {
+      return of(true);
+    }
+
+    return fromEvent(document, 'visibilitychange').pipe(
+      map(() => document.visibilityState !== 'hidden'),
+      startWith(document.visibilityState !== 'hidden'),
+      distinctUntilChanged()
+    );
+  }
+
+  private updateState(changes: Partial<PollerState>): void {
+    this.stateSubject.next({
+      ...this.stateSubject.value,
+      intervalMs: this.currentInterval(),
+      consecutiveErrors: this.consecutiveErrors,
+      ...changes
+    });
+  }
+}
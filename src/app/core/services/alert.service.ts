@@ -0,0 +1,256 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, distinctUntilChanged, map } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { AuthService } from './auth.service';
+import { NotificationService } from './notification.service';
+
+export type AlertCategory = 'vital' | 'strap' | 'battery';
+export type AlertSeverity = 'warning' | 'critical';
+export type AlertState = 'open' | 'acknowledged' | 'resolved';
+
+export interface AlertLocation {
+  latitude: number;
+  longitude: number;
+  timestamp: number; // Time of the fix, epoch milliseconds
+}
+
+/**
+ * One rule firing for one device, as produced by a rules engine
+ */
+export interface AlertCandidate {
+  ruleId: string;
+  category: AlertCategory;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  value?: number;
+  readingAt?: number; // Time of the reading that fired the rule, epoch milliseconds
+  location?: AlertLocation; // Last known position when the alert fired
+}
+
+export interface DeviceAlert extends AlertCandidate {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  state: AlertState;
+  raisedAt: number;
+  lastSeenAt: number;
+  occurrences: number;
+  inRange: boolean; // The condition has cleared since the alert was raised
+  acknowledgedAt?: number;
+  resolvedAt?: number;
+}
+
+export interface AlertDevice {
+  id: string;
+  name: string;
+}
+
+/**
+ * True when the candidate comes from the same or an older reading than the alert
+ */
+function isRepeatedReading(alert: DeviceAlert, candidate: AlertCandidate): boolean {
+  return alert.readingAt !== undefined && candidate.readingAt !== undefined && candidate.readingAt <= alert.readingAt;
+}
+
+/**
+ * Alert feed shared by all rules engines.
+ * While an alert for a device and rule is open or acknowledged, further
+ * breaches update it instead of raising a duplicate; a new alert is only
+ * raised once the previous one has been resolved. A candidate whose reading
+ * is not newer than the one already on the device's alert for that rule is
+ * ignored, so polling an unchanged sample neither adds occurrences nor raises
+ * the alert again after it was resolved. Alerts and their
+ * acknowledge/resolve state are kept in local storage per account until that
+ * account is signed out.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertService {
+  private readonly storageKeyPrefix = 'traxbean_alerts';
+  private readonly maxStored = environment.alerts.maxStored;
+
+  private alertsSubject = new BehaviorSubject<DeviceAlert[]>([]);
+  private accountId: string | null = null;
+
+  public alerts$ = this.alertsSubject.asObservable();
+  public activeAlerts$: Observable<DeviceAlert[]> = this.alerts$.pipe(
+    map(alerts => alerts.filter(alert => alert.state !== 'resolved'))
+  );
+  public openCount$: Observable<number> = this.alerts$.pipe(
+    map(alerts => alerts.filter(alert => alert.state === 'open').length),
+    distinctUntilChanged()
+  );
+
+  constructor(
+    private authService: AuthService,
+    private notificationService: NotificationService
+  ) {
+    this.authService.activeAccountId$.pipe(distinctUntilChanged()).subscribe(accountId => {
+      this.accountId = accountId;
+      this.alertsSubject.next(accountId ? this.readStored(accountId) : []);
+    });
+
+    this.authService.accounts$.subscribe(accounts => {
+      this.retainAccounts(accounts.map(account => account.accountId));
+    });
+  }
+
+  /**
+   * Apply one evaluation of a device. `checkedRuleIds` are the rules that had
+   * data this round; a checked rule that did not fire marks its alert as back
+   * in range. Returns the alerts raised by this call.
+   */
+  report(device: AlertDevice, candidates: AlertCandidate[], checkedRuleIds: string[]): DeviceAlert[] {
+    const now = Date.now();
+    const raised: DeviceAlert[] = [];
+    const firing = new Map(candidates.map(candidate => [candidate.ruleId, candidate]));
+    let changed = false;
+
+    const alerts = this.alertsSubject.value.map(alert => {
+      if (alert.deviceId !== device.id || alert.state === 'resolved') {
+        return alert;
+      }
+
+      const candidate = firing.get(alert.ruleId);
+      if (candidate) {
+        firing.delete(alert.ruleId);
+        if (isRepeatedReading(alert, candidate)) {
+          return alert;
+        }
+        changed = true;
+        return {
+          ...alert,
+          ...candidate,
+          severity: alert.severity === 'critical' ? 'critical' : candidate.severity,
+          deviceName: device.name,
+          lastSeenAt: now,
+          occurrences: alert.occurrences + 1,
+          inRange: false
+        };
+      }
+
+      if (checkedRuleIds.includes(alert.ruleId) && !alert.inRange) {
+        changed = true;
+        return { ...alert, inRange: true };
+      }
+      return alert;
+    });
+
+    firing.forEach(candidate => {
+      const reported = alerts.some(alert =>
+        alert.deviceId === device.id && alert.ruleId === candidate.ruleId && isRepeatedReading(alert, candidate));
+      if (reported) {
+        return;
+      }
+
+      const alert: DeviceAlert = {
+        ...candidate,
+        id: `${device.id}-${candidate.ruleId}-${now}`,
+        deviceId: device.id,
+        deviceName: device.name,
+        state: 'open',
+        raisedAt: now,
+        lastSeenAt: now,
+        occurrences: 1,
+        inRange: false
+      };
+      raised.push(alert);
+      alerts.unshift(alert);
+      changed = true;
+    });
+
+    if (changed) {
+      this.update(alerts);
+    }
+
+    raised.forEach(alert => this.notificationService.warn(`${alert.deviceName}: ${alert.title}`, alert.message));
+    return raised;
+  }
+
+  acknowledge(alertId: string): void {
+    this.setState(alertId, 'open', alert => ({ ...alert, state: 'acknowledged', acknowledgedAt: Date.now() }));
+  }
+
+  resolve(alertId: string): void {
+    this.setState(alertId, null, alert => ({ ...alert, state: 'resolved', resolvedAt: Date.now() }));
+  }
+
+  clearResolved(): void {
+    this.update(this.alertsSubject.value.filter(alert => alert.state !== 'resolved'));
+  }
+
+  getAlerts(): DeviceAlert[] {
+    return this.alertsSubject.value;
+  }
+
+  /**
+   * @param from Only change alerts in this state; null for any unresolved alert
+   */
+  private setState(alertId: string, from: AlertState | null, change: (alert: DeviceAlert) => DeviceAlert): void {
+    let changed = false;
+    const alerts = this.alertsSubject.value.map(alert => {
+      const applies = alert.id === alertId && (from ? alert.state === from : alert.state !== 'resolved');
+      if (!applies) {
+        return alert;
+      }
+      changed = true;
+      return change(alert);
+    });
+
+    if (changed) {
+      this.update(alerts);
+    }
+  }
+
+  private update(alerts: DeviceAlert[]): void {
+    this.alertsSubject.next(alerts);
+    this.writeStored(alerts);
+  }
+
+  private retainAccounts(accountIds: string[]): void {
+    const retained = new Set(accountIds.map(accountId => this.storageKey(accountId)));
+
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(`${this.storageKeyPrefix}:`) && !retained.has(key))
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  private storageKey(accountId: string): string {
+    return `${this.storageKeyPrefix}:${accountId}`;
+  }
+
+  /**
+   * Newest first; resolved alerts are dropped before active ones when over the limit
+   */
+  private writeStored(alerts: DeviceAlert[]): void {
+    if (!this.accountId) {
+      return;
+    }
+
+    let stored = alerts;
+    if (stored.length > this.maxStored) {
+      const active = stored.filter(alert => alert.state !== 'resolved');
+      const resolved = stored.filter(alert => alert.state === 'resolved');
+      stored = [...active, ...resolved.slice(0, Math.max(0, this.maxStored - active.length))]
+        .sort((a, b) => b.raisedAt - a.raisedAt);
+    }
+
+    try {
+      localStorage.setItem(this.storageKey(this.accountId), JSON.stringify(stored));
+    } catch (error) {
+      console.warn('Failed to persist alerts:', error);
+    }
+  }
+
+  private readStored(accountId: string): DeviceAlert[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey(accountId));
+      const alerts = stored ? JSON.parse(stored) : [];
+      return Array.isArray(alerts) ? alerts : [];
+    } catch {
+      return [];
+    }
+  }
+}
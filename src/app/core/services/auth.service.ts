@@ -1,9 +1,20 @@
-import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders, HttpErrorResponse } from '@angular/common/http';
-import { Observable, BehaviorSubject, throwError } from 'rxjs';
-import { map, catchError, tap } from 'rxjs/operators';
+import { Injectable, OnDestroy } from '@angular/core';
+import { HttpHeaders } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, BehaviorSubject, Subscription, fromEvent, throwError, timer } from 'rxjs';
+import { map, catchError, tap, finalize, shareReplay, filter, debounceTime } from 'rxjs/operators';
 import { environment } from '../../../environments/environment';
 import { UserService } from './user.service';
+import { TraxbeanApiClient } from '../api/traxbean-api.client';
+import { ErrorHandlerService } from './error-handler.service';
+import { TelemetryService } from './telemetry.service';
+import { ApiResponse, LoginApiResponse, UserContext } from '../api/traxbean-api.models';
+import { decodeTokenExpiry } from '../auth/jwt';
+import { loginLockoutSeconds } from '../auth/login-backoff';
+import { RETURN_URL_PARAM } from '../guards/auth.guard';
+
+// Re-exported for existing imports; the definitions live with the API client
+export type { ApiResponse, LoginApiResponse, LoginRequest, UserContext } from '../api/traxbean-api.models';
 
 export interface LoginCredentials {
   username: string;
@@ -11,97 +22,100 @@ export interface LoginCredentials {
   clientId?: string;
 }
 
-export interface AuthenticationResponse {
-  data: {
-    token: string;
-    user: UserContext;
-  };
-  code: number;
-  message: string;
-}
-
-export interface UserContext {
-  id: number;
-  departmentId: number;
-  userType: number;
-  name: string;
-  username: string;
-  nickName: string;
-  headImg: string;
-  email: string;
-  phone: string;
-  status: number;
-  createdAt?: string;
-  updatedAt?: string;
-}
+export type AuthenticationResponse = ApiResponse<LoginApiResponse>;
 
 // Legacy interface for backward compatibility
-export interface LoginRequest {
-  username: string;
-  password: string;
-  clientId?: string;
-}
-
 export interface LoginResponse {
   token: string;
   user?: any;
 }
 
-// API Response interfaces based on specification
-export interface ApiResponse<T> {
-  data: T;
-  code: number;
-  message: string;
-}
-
-export interface UserData {
-  id: number;
-  departmentId: number;
-  userType: number;
-  name: string;
-  username: string;
-  nickName: string;
-  headImg: string;
-  email: string;
-  phone: string;
-  status: number;
+export type UserData = UserContext;
+
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'RATE_LIMITED'
+  | 'NETWORK_ERROR'
+  | 'ACCESS_DENIED'
+  | 'SERVER_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'UNKNOWN';
+
+/**
+ * Login failure with a machine-readable cause so the UI can tell bad
+ * credentials, lockouts, connectivity problems and outages apart
+ */
+export class AuthenticationError extends Error {
+  constructor(
+    public readonly code: AuthErrorCode,
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
 }
 
-export interface LoginApiResponse {
+/**
+ * A signed-in Traxbean account kept on this device.
+ * Several can be stored at once; exactly one is active.
+ */
+export interface StoredSession {
+  accountId: string;
+  clientId: string;
+  user: UserContext;
   token: string;
-  user: UserData;
+  lastUsedAt: number;
 }
 
 @Injectable({
   providedIn: 'root'
 })
-export class AuthService {
-  private readonly baseUrl = environment.traxbeanApiUrl;
+export class AuthService implements OnDestroy {
   private readonly tokenKey = 'traxbean_jwt_token';
   private readonly userContextKey = 'traxbean_user_context';
+  private readonly sessionsKey = 'traxbean_sessions';
+  private readonly activeAccountKey = 'traxbean_active_account';
+  // Per tab, so reloading the login page does not reset the backoff
+  private readonly loginBackoffKey = 'traxbean_login_backoff';
+  private readonly defaultClientId = environment.login.clientIds[0];
   
   // Reactive authentication state management
   private currentUserSubject = new BehaviorSubject<UserContext | null>(null);
   private isAuthenticatedSubject = new BehaviorSubject<boolean>(false);
   private tokenSubject = new BehaviorSubject<string | null>(this.getStoredToken());
+  private sessionExpiresAtSubject = new BehaviorSubject<Date | null>(null);
+  private accountsSubject = new BehaviorSubject<StoredSession[]>([]);
+  private activeAccountIdSubject = new BehaviorSubject<string | null>(null);
+  private loginLockedUntilSubject = new BehaviorSubject<Date | null>(null);
   
   public currentUser$ = this.currentUserSubject.asObservable();
   public isAuthenticated$ = this.isAuthenticatedSubject.asObservable();
   public token$ = this.tokenSubject.asObservable();
-
-  private readonly httpOptions = {
-    headers: new HttpHeaders({
-      'Content-Type': 'application/json'
-    })
-  };
-
-  private tempToken: string = '';
+  public sessionExpiresAt$ = this.sessionExpiresAtSubject.asObservable();
+  public accounts$ = this.accountsSubject.asObservable();
+  public activeAccountId$ = this.activeAccountIdSubject.asObservable();
+  public loginLockedUntil$ = this.loginLockedUntilSubject.asObservable();
+
+  // Credentials per account, kept in memory only so sessions can be silently
+  // renewed. They are never persisted and are lost on page reload.
+  private sessionCredentials = new Map<string, LoginCredentials>();
+  private refreshRequest$: Observable<string> | null = null;
+  private refreshTimer?: Subscription;
+  private storageSync?: Subscription;
+  private failedLoginAttempts = 0;
 
   constructor(
-    private http: HttpClient,
+    private apiClient: TraxbeanApiClient,
     private userService: UserService,
+    private errorHandler: ErrorHandlerService,
+    private telemetry: TelemetryService,
+    private router: Router,
   ) {
     this.initializeAuthenticationState();
+    this.restoreLoginBackoff();
+    this.watchOtherTabs();
   }
 
   /**
@@ -109,21 +123,31 @@ export class AuthService {
    * Implements enterprise-grade token management and state synchronization
    */
   authenticate(credentials: LoginCredentials): Observable<UserContext> {
+    const lockoutSeconds = this.getLoginLockoutSeconds();
+    if (lockoutSeconds > 0) {
+      return throwError(() => new AuthenticationError(
+        'RATE_LIMITED',
+        `Too many login attempts. Please try again in ${lockoutSeconds} seconds.`,
+        undefined,
+        lockoutSeconds
+      ));
+    }
+
     const loginPayload = {
       username: credentials.username.trim(),
       password: credentials.password,
-      clientId: 'syscodeia-tracking'
+      clientId: credentials.clientId?.trim() || this.defaultClientId
     };
 
-    const url = `${this.baseUrl}/app/traxbean/login`;
-
-    return this.http.post<AuthenticationResponse>(
-      url,
-      loginPayload,
-      this.httpOptions
-    ).pipe(
+    return this.apiClient.login(loginPayload).pipe(
       map(response => this.validateAuthenticationResponse(response)),
-      tap(userContext => this.establishAuthenticatedSession(userContext)),
+      tap(response => {
+        this.resetLoginBackoff();
+        const accountId = this.buildAccountId(loginPayload.clientId, response.user);
+        this.sessionCredentials.set(accountId, { ...credentials });
+        this.establishAuthenticatedSession(accountId, loginPayload.clientId, response.user, response.token);
+      }),
+      map(response => response.user),
       catchError(error => {
         return this.handleAuthenticationError(error);
       })
@@ -133,10 +157,10 @@ export class AuthService {
   /**
    * Legacy login method for backward compatibility
    */
-  login(credentials: LoginRequest): Observable<LoginResponse> {
+  login(credentials: LoginCredentials): Observable<LoginResponse> {
     return this.authenticate(credentials).pipe(
       map(user => ({
-        token: this.tempToken,
+        token: this.getAuthToken() ?? '',
         user: user
       }))
     );
@@ -146,12 +170,21 @@ export class AuthService {
    * Secure token storage with encryption consideration
    * Implements JWT lifecycle management
    */
-  private establishAuthenticatedSession(user: UserContext): void {
-    const token = this.tempToken;
-    
+  private establishAuthenticatedSession(accountId: string, clientId: string, user: UserContext, token: string): void {
+    this.saveSession({ accountId, clientId, user, token, lastUsedAt: Date.now() });
+    this.activateSession(accountId, user, token);
+  }
+
+  /**
+   * Make a stored session the active one.
+   * The active token and user are mirrored to their original storage keys so
+   * the rest of the app keeps working with a single current session.
+   */
+  private activateSession(accountId: string, user: UserContext, token: string): void {
     // Store token and user context
     localStorage.setItem(this.tokenKey, token);
     localStorage.setItem(this.userContextKey, JSON.stringify(user));
+    localStorage.setItem(this.activeAccountKey, accountId);
     
          // Update reactive state
      this.currentUserSubject.next(user);
@@ -160,6 +193,143 @@ export class AuthService {
 
      // Store user information with the complete user data
      this.userService.setUser(user);
+
+    // Announced after the token and user so listeners reloading data already see them
+    this.activeAccountIdSubject.next(accountId);
+    this.scheduleSessionRefresh(token);
+  }
+
+  /**
+   * Switch to another stored account without signing in again.
+   * Returns false when the account is unknown or its session has lapsed.
+   */
+  switchAccount(accountId: string): boolean {
+    const session = this.accountsSubject.value.find(account => account.accountId === accountId);
+    if (!session) {
+      return false;
+    }
+
+    if (accountId !== this.getActiveAccountId()) {
+      const expiresAt = decodeTokenExpiry(session.token);
+      if (expiresAt && expiresAt.getTime() <= Date.now() && !this.sessionCredentials.has(accountId)) {
+        // Expired and cannot be renewed silently: the user has to sign in to it again
+        this.signOutAccount(accountId);
+        return false;
+      }
+
+      this.saveSession({ ...session, lastUsedAt: Date.now() });
+      this.activateSession(session.accountId, session.user, session.token);
+    }
+    return true;
+  }
+
+  /**
+   * Sign out of a single account (the active one by default).
+   * When the active account is removed, the most recently used remaining
+   * account takes over. Returns whether a session is still active.
+   */
+  signOutAccount(accountId: string | null = this.getActiveAccountId()): boolean {
+    const remaining = this.accountsSubject.value.filter(account => account.accountId !== accountId);
+
+    if (remaining.length === 0) {
+      this.logout();
+      return false;
+    }
+
+    if (accountId) {
+      this.sessionCredentials.delete(accountId);
+    }
+    this.writeSessions(remaining);
+
+    if (accountId === this.getActiveAccountId()) {
+      const next = remaining.reduce((latest, account) => account.lastUsedAt > latest.lastUsedAt ? account : latest);
+      this.switchAccount(next.accountId);
+    }
+    return true;
+  }
+
+  /**
+   * All accounts stored on this device
+   */
+  getAccounts(): StoredSession[] {
+    return this.accountsSubject.value;
+  }
+
+  getActiveAccountId(): string | null {
+    return this.activeAccountIdSubject.value;
+  }
+
+  getActiveAccount(): StoredSession | null {
+    return this.accountsSubject.value.find(account => account.accountId === this.getActiveAccountId()) ?? null;
+  }
+
+  /**
+   * Renew the session before the JWT expires.
+   * Traxbean has no refresh endpoint, so this re-authenticates with the in-memory
+   * credentials. Concurrent callers share a single in-flight request.
+   * Credentials are never stored, so after a page reload the session cannot be
+   * renewed silently: the session timeout dialog asks for the password instead.
+   */
+  refreshSession(): Observable<string> {
+    if (this.refreshRequest$) {
+      return this.refreshRequest$;
+    }
+
+    const credentials = this.getActiveCredentials();
+    if (!credentials) {
+      return throwError(() => new Error('Session cannot be renewed without signing in again.'));
+    }
+
+    this.refreshRequest$ = this.authenticate(credentials).pipe(
+      map(() => this.getAuthToken() as string),
+      finalize(() => this.refreshRequest$ = null),
+      shareReplay(1)
+    );
+
+    return this.refreshRequest$;
+  }
+
+  /**
+   * Seconds left before another login attempt is allowed (0 when not locked out)
+   */
+  getLoginLockoutSeconds(): number {
+    const lockedUntil = this.loginLockedUntilSubject.value;
+    if (!lockedUntil) {
+      return 0;
+    }
+    return Math.max(0, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  }
+
+  /**
+   * Whether a session refresh is currently in flight
+   */
+  isRefreshing(): boolean {
+    return this.refreshRequest$ !== null;
+  }
+
+  /**
+   * Whether the current session can be renewed without user interaction
+   */
+  canRefreshSession(): boolean {
+    return this.getActiveCredentials() !== null;
+  }
+
+  /**
+   * Get the expiry of the current session, if known
+   */
+  getSessionExpiresAt(): Date | null {
+    return this.sessionExpiresAtSubject.value;
+  }
+
+  /**
+   * Check whether the stored token has expired (or is about to)
+   */
+  isTokenExpired(leewaySeconds = 0): boolean {
+    const expiresAt = this.getSessionExpiresAt();
+    if (!expiresAt) {
+      return false;
+    }
+    return expiresAt.getTime() - leewaySeconds * 1000 <= Date.now();
   }
 
   /**
@@ -216,31 +386,122 @@ export class AuthService {
   }
 
   /**
-   * Comprehensive logout with state cleanup
+   * Comprehensive logout with state cleanup.
+   * Signs out of every stored account; use signOutAccount() for just one.
    */
   logout(): void {
     localStorage.removeItem(this.tokenKey);
     localStorage.removeItem(this.userContextKey);
-    
+    localStorage.removeItem(this.activeAccountKey);
+    localStorage.removeItem(this.sessionsKey);
+
+    this.clearSessionState();
+  }
+
+  ngOnDestroy(): void {
+    this.cancelSessionRefresh();
+    this.storageSync?.unsubscribe();
+  }
+
+  /**
+   * Reset in-memory session state without touching storage
+   */
+  private clearSessionState(): void {
+    this.cancelSessionRefresh();
+    this.sessionCredentials.clear();
+    this.sessionExpiresAtSubject.next(null);
+    this.accountsSubject.next([]);
+    this.activeAccountIdSubject.next(null);
+
     this.currentUserSubject.next(null);
     this.isAuthenticatedSubject.next(false);
     this.tokenSubject.next(null);
     this.userService.clearUser();
   }
 
+  /**
+   * Follow logins, logouts and account switches made in other tabs.
+   * The browser only fires `storage` events in the tabs that did not make the
+   * change; a short debounce lets multi-key writes settle before re-reading.
+   * A session ended elsewhere sends this tab to the login page, which brings
+   * the user back to the current page after signing in again.
+   */
+  private watchOtherTabs(): void {
+    const sessionKeys = [this.tokenKey, this.userContextKey, this.sessionsKey, this.activeAccountKey];
+
+    this.storageSync = fromEvent<StorageEvent>(window, 'storage').pipe(
+      filter(event => event.storageArea === localStorage && (event.key === null || sessionKeys.includes(event.key))),
+      debounceTime(50)
+    ).subscribe(() => this.syncFromStorage());
+  }
+
+  private syncFromStorage(): void {
+    const storedUser = localStorage.getItem(this.userContextKey);
+    const storedToken = this.getAuthToken();
+    const accountId = localStorage.getItem(this.activeAccountKey);
+
+    if (!storedUser || !storedToken) {
+      if (this.isAuthenticatedSubject.value) {
+        const returnUrl = this.router.url;
+        this.clearSessionState();
+        this.router.navigate(['/login'], {
+          queryParams: returnUrl.startsWith('/login') ? {} : { [RETURN_URL_PARAM]: returnUrl }
+        });
+      }
+      return;
+    }
+
+    let user: UserContext;
+    try {
+      user = JSON.parse(storedUser);
+    } catch (error) {
+      console.error('Failed to parse user context from another tab:', error);
+      return;
+    }
+
+    const sessions = this.readStoredSessions();
+    for (const knownAccountId of this.sessionCredentials.keys()) {
+      if (!sessions.some(session => session.accountId === knownAccountId)) {
+        this.sessionCredentials.delete(knownAccountId);
+      }
+    }
+    this.accountsSubject.next(sessions);
+
+    if (storedToken === this.tokenSubject.value && accountId === this.getActiveAccountId()) {
+      return;
+    }
+
+    this.currentUserSubject.next(user);
+    this.isAuthenticatedSubject.next(true);
+    this.tokenSubject.next(storedToken);
+    this.userService.setUser(user);
+    this.activeAccountIdSubject.next(accountId);
+    this.scheduleSessionRefresh(storedToken);
+  }
+
   /**
    * Initialize authentication state on application bootstrap
    */
   private initializeAuthenticationState(): void {
     const storedUser = localStorage.getItem(this.userContextKey);
     const storedToken = this.getAuthToken();
+    this.accountsSubject.next(this.readStoredSessions());
 
     if (storedUser && storedToken) {
       try {
         const user: UserContext = JSON.parse(storedUser);
+        const accountId = localStorage.getItem(this.activeAccountKey) ?? this.buildAccountId(this.defaultClientId, user);
+
+        // Sessions stored before multi-account support only have the single token/user pair
+        if (!this.accountsSubject.value.some(account => account.accountId === accountId)) {
+          this.saveSession({ accountId, clientId: this.defaultClientId, user, token: storedToken, lastUsedAt: Date.now() });
+        }
+
         this.currentUserSubject.next(user);
         this.isAuthenticatedSubject.next(true);
         this.tokenSubject.next(storedToken);
+        this.activeAccountIdSubject.next(accountId);
+        this.scheduleSessionRefresh(storedToken);
       } catch (error) {
         console.error('Failed to parse stored user context:', error);
         this.logout();
@@ -249,73 +510,173 @@ export class AuthService {
   }
 
   /**
-   * Validate API response structure and business logic
+   * Validate the unwrapped login payload structure
    */
-  private validateAuthenticationResponse(response: AuthenticationResponse): UserContext {
-    if (response.code !== 200) {
-      throw new Error(`Authentication failed: ${response.message}`);
+  private validateAuthenticationResponse(response: LoginApiResponse): LoginApiResponse {
+    if (!response?.token || !response?.user) {
+      throw new AuthenticationError('INVALID_RESPONSE', 'Invalid authentication response structure');
     }
 
-    if (!response.data?.token || !response.data?.user) {
-      throw new Error('Invalid authentication response structure');
+    return response;
+  }
+
+  /**
+   * Centralized error handling.
+   * Every failure is re-thrown as an AuthenticationError; rejected credentials
+   * and rate limiting also extend the client-side login backoff, and any
+   * failure with a Retry-After (e.g. a 503 during maintenance) locks logins
+   * for that long.
+   */
+  private handleAuthenticationError(error: unknown): Observable<never> {
+    let authError = this.toAuthenticationError(error);
+
+    const rejected = authError.code === 'INVALID_CREDENTIALS' || authError.code === 'RATE_LIMITED';
+    if (rejected) {
+      this.failedLoginAttempts++;
     }
 
-    // Store token temporarily for session establishment
-    this.tempToken = response.data.token;
+    const lockoutSeconds = rejected
+      ? loginLockoutSeconds(this.failedLoginAttempts, authError.retryAfterSeconds)
+      : authError.retryAfterSeconds ?? 0;
+    if (lockoutSeconds > 0) {
+      this.loginLockedUntilSubject.next(new Date(Date.now() + lockoutSeconds * 1000));
+      authError = new AuthenticationError(authError.code, authError.message, authError.status, lockoutSeconds);
+    }
+    this.saveLoginBackoff();
 
-    return response.data.user;
+    return throwError(() => authError);
   }
 
   /**
-   * Centralized error handling with detailed logging
+   * Map the normalized API failure onto a login-specific cause
    */
-  private handleAuthenticationError(error: HttpErrorResponse): Observable<never> {
-    let errorMessage = 'Authentication failed';
-
-    if (error.error instanceof ErrorEvent) {
-      // Client-side network error
-      errorMessage = `Network error: ${error.error.message}`;
-    } else {
-      // Server-side error
-      switch (error.status) {
-        case 0:
-          errorMessage = 'Network error. Please check your internet connection and CORS configuration.';
-          break;
-        case 400:
-          errorMessage = 'Invalid request. Please check your credentials.';
-          break;
-        case 401:
-          errorMessage = 'Invalid credentials provided';
-          break;
-        case 403:
-          errorMessage = 'Access denied. Please contact your administrator.';
-          break;
-        case 404:
-          errorMessage = 'API endpoint not found. The Traxbean API may not be publicly accessible or the endpoint path may be incorrect.';
-          break;
-        case 429:
-          errorMessage = 'Too many login attempts. Please try again later.';
-          break;
-        case 500:
-          errorMessage = 'Server error. Please contact system administrator.';
-          break;
-        case 503:
-          errorMessage = 'Service temporarily unavailable. Please try again later.';
-          break;
-        default:
-          errorMessage = error.error?.message || `Unexpected error: ${error.message}`;
+  private toAuthenticationError(error: unknown): AuthenticationError {
+    if (error instanceof AuthenticationError) {
+      return error;
+    }
+
+    const apiError = this.errorHandler.handleApiError(error);
+    const { status, retryAfterSeconds } = apiError;
+
+    switch (apiError.code) {
+      case 'API_ERROR':
+        // Traxbean rejected the login inside a successful HTTP response
+        if (status === 429) {
+          return new AuthenticationError('RATE_LIMITED', 'Too many login attempts. Please try again later.', status);
+        }
+        if (status !== undefined && status >= 500) {
+          return new AuthenticationError('SERVER_ERROR', `Authentication failed: ${apiError.message}`, status);
+        }
+        return new AuthenticationError('INVALID_CREDENTIALS', `Authentication failed: ${apiError.message}`, status);
+      case 'BAD_REQUEST':
+        return new AuthenticationError('INVALID_CREDENTIALS', 'Invalid request. Please check your credentials.', status);
+      case 'UNAUTHORIZED':
+        return new AuthenticationError('INVALID_CREDENTIALS', 'Invalid credentials provided', status);
+      case 'FORBIDDEN':
+        return new AuthenticationError('ACCESS_DENIED', 'Access denied. Please contact your administrator.', status);
+      case 'RATE_LIMITED':
+        return new AuthenticationError('RATE_LIMITED', 'Too many login attempts. Please try again later.', status, retryAfterSeconds);
+      case 'NETWORK_ERROR':
+        return new AuthenticationError('NETWORK_ERROR', 'Network error. Please check your internet connection and CORS configuration.', status);
+      case 'TIMEOUT':
+        return new AuthenticationError('NETWORK_ERROR', apiError.userMessage, status);
+      case 'NOT_FOUND':
+        return new AuthenticationError('SERVER_ERROR', 'API endpoint not found. The Traxbean API may not be publicly accessible or the endpoint path may be incorrect.', status);
+      case 'SERVER_ERROR':
+      case 'SERVICE_UNAVAILABLE':
+        return new AuthenticationError('SERVER_ERROR', apiError.userMessage, status, retryAfterSeconds);
+      default:
+        return new AuthenticationError('UNKNOWN', apiError.message || 'Authentication failed', status);
+    }
+  }
+
+  private resetLoginBackoff(): void {
+    this.failedLoginAttempts = 0;
+    this.loginLockedUntilSubject.next(null);
+    sessionStorage.removeItem(this.loginBackoffKey);
+  }
+
+  private saveLoginBackoff(): void {
+    sessionStorage.setItem(this.loginBackoffKey, JSON.stringify({
+      failedAttempts: this.failedLoginAttempts,
+      lockedUntil: this.loginLockedUntilSubject.value?.getTime() ?? null
+    }));
+  }
+
+  private restoreLoginBackoff(): void {
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(this.loginBackoffKey) ?? 'null');
+      if (!stored) {
+        return;
       }
+
+      this.failedLoginAttempts = Number.isInteger(stored.failedAttempts) ? stored.failedAttempts : 0;
+      if (typeof stored.lockedUntil === 'number' && stored.lockedUntil > Date.now()) {
+        this.loginLockedUntilSubject.next(new Date(stored.lockedUntil));
+      }
+    } catch {
+      sessionStorage.removeItem(this.loginBackoffKey);
     }
+  }
 
-    console.error('Authentication Error:', {
-      status: error.status,
-      message: errorMessage,
-      timestamp: new Date().toISOString(),
-      url: error.url,
-      fullError: error
+  /**
+   * Track the token expiry and renew the session shortly before it lapses
+   */
+  private scheduleSessionRefresh(token: string): void {
+    this.cancelSessionRefresh();
+
+    const expiresAt = decodeTokenExpiry(token);
+    this.sessionExpiresAtSubject.next(expiresAt);
+
+    if (!expiresAt || !this.canRefreshSession()) {
+      return;
+    }
+
+    const leadTimeMs = environment.session.refreshLeadTimeSeconds * 1000;
+    const dueIn = Math.max(0, expiresAt.getTime() - leadTimeMs - Date.now());
+
+    this.refreshTimer = timer(dueIn).subscribe(() => {
+      this.refreshSession().subscribe({
+        error: error => this.telemetry.trackError(error, { source: 'session-refresh' })
+      });
     });
+  }
+
+  private cancelSessionRefresh(): void {
+    this.refreshTimer?.unsubscribe();
+    this.refreshTimer = undefined;
+  }
+
+  private getActiveCredentials(): LoginCredentials | null {
+    const accountId = this.getActiveAccountId();
+    return (accountId && this.sessionCredentials.get(accountId)) || null;
+  }
 
-    return throwError(() => new Error(errorMessage));
+  private buildAccountId(clientId: string, user: UserContext): string {
+    return `${clientId}:${user.id}`;
+  }
+
+  /**
+   * Insert or replace a stored session
+   */
+  private saveSession(session: StoredSession): void {
+    const sessions = this.accountsSubject.value.filter(account => account.accountId !== session.accountId);
+    this.writeSessions([...sessions, session]);
+  }
+
+  private writeSessions(sessions: StoredSession[]): void {
+    localStorage.setItem(this.sessionsKey, JSON.stringify(sessions));
+    this.accountsSubject.next(sessions);
+  }
+
+  private readStoredSessions(): StoredSession[] {
+    try {
+      const stored = localStorage.getItem(this.sessionsKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to parse stored sessions:', error);
+      return [];
+    }
   }
 
   /**
@@ -0,0 +1,222 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription, auditTime, distinctUntilChanged, map } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import {
+  BatteryEstimate,
+  BatteryLevel,
+  BatterySample,
+  BatteryThresholds,
+  DEFAULT_BATTERY_THRESHOLDS,
+  addBatterySample,
+  batteryAlert,
+  clearedBatteryRuleIds,
+  estimateTimeToEmpty,
+  getBatteryLevel,
+  isBatteryDrop
+} from '../alerts/battery-rules';
+import { AlertService } from './alert.service';
+import { AuthService } from './auth.service';
+import { DeviceWithLocation } from './device.service';
+import { LivePositionService } from './live-position.service';
+
+interface BatteryStore {
+  thresholds: Record<string, BatteryThresholds>; // Per-device overrides
+  history: Record<string, BatterySample[]>;
+}
+
+/**
+ * Records battery readings of the dashboard devices and raises an alert when
+ * a device drops to its low or critical threshold. Readings and per-device
+ * thresholds are kept in local storage per account so the history survives
+ * a reload; they are purged when the account is signed out. The history is
+ * thinned to one reading per `sampleIntervalMinutes` and written at most every
+ * `persistIntervalSeconds` to stay within the storage quota on large fleets.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BatteryMonitorService {
+  private readonly storageKeyPrefix = 'traxbean_battery';
+  private readonly historyMs = environment.alerts.battery.historyHours * 60 * 60 * 1000;
+  private readonly sampleIntervalMs = environment.alerts.battery.sampleIntervalMinutes * 60 * 1000;
+  private readonly persistIntervalMs = environment.alerts.battery.persistIntervalSeconds * 1000;
+
+  private storeSubject = new BehaviorSubject<BatteryStore>({ thresholds: {}, history: {} });
+  private accountId: string | null = null;
+  private subscription: Subscription | null = null;
+  // Level at the last reading, to alert on drops only
+  private levels = new Map<string, BatteryLevel>();
+  private writes$ = new Subject<void>();
+  private unsaved = false;
+
+  constructor(
+    private livePositionService: LivePositionService,
+    private alertService: AlertService,
+    private authService: AuthService
+  ) {
+    this.authService.activeAccountId$.pipe(distinctUntilChanged()).subscribe(accountId => {
+      // Write what the previous account recorded before its history is swapped out
+      this.persist();
+      this.accountId = accountId;
+      this.levels.clear();
+      this.storeSubject.next(accountId ? this.readStored(accountId) : { thresholds: {}, history: {} });
+    });
+
+    this.authService.accounts$.subscribe(accounts => {
+      this.retainAccounts(accounts.map(account => account.accountId));
+    });
+
+    this.writes$.pipe(auditTime(this.persistIntervalMs)).subscribe(() => this.persist());
+  }
+
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    this.subscription = this.livePositionService.devices$.subscribe(devices => this.record(devices));
+  }
+
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.levels.clear();
+  }
+
+  history$(deviceId: string): Observable<BatterySample[]> {
+    return this.storeSubject.pipe(
+      map(store => store.history[deviceId] ?? []),
+      distinctUntilChanged()
+    );
+  }
+
+  estimate$(deviceId: string): Observable<BatteryEstimate | null> {
+    return this.history$(deviceId).pipe(map(samples => estimateTimeToEmpty(samples)));
+  }
+
+  thresholds$(deviceId: string): Observable<BatteryThresholds> {
+    return this.storeSubject.pipe(
+      map(store => store.thresholds[deviceId] ?? DEFAULT_BATTERY_THRESHOLDS),
+      distinctUntilChanged()
+    );
+  }
+
+  getThresholds(deviceId: string): BatteryThresholds {
+    return this.storeSubject.value.thresholds[deviceId] ?? DEFAULT_BATTERY_THRESHOLDS;
+  }
+
+  /**
+   * Override the thresholds of one device; null restores the defaults.
+   * The next reading is evaluated against the new thresholds.
+   */
+  setThresholds(deviceId: string, thresholds: BatteryThresholds | null): void {
+    const store = this.storeSubject.value;
+    const overrides = { ...store.thresholds };
+
+    if (thresholds) {
+      overrides[deviceId] = thresholds;
+    } else {
+      delete overrides[deviceId];
+    }
+
+    this.levels.delete(deviceId);
+    this.update({ ...store, thresholds: overrides });
+    this.persist();
+  }
+
+  private record(devices: DeviceWithLocation[]): void {
+    const store = this.storeSubject.value;
+    const cutoff = Date.now() - this.historyMs;
+    let history: Record<string, BatterySample[]> | null = null;
+
+    for (const device of devices) {
+      if (typeof device.battery !== 'number' || !isFinite(device.battery)) {
+        continue;
+      }
+
+      // The battery is reported with the status, which can be newer than the last fix
+      const reportedAt = device.reportedAt?.getTime();
+      const timestamp = reportedAt !== undefined && isFinite(reportedAt) ? reportedAt : Date.now();
+      const samples = store.history[device.id] ?? [];
+      const last = samples[samples.length - 1];
+
+      // Snapshots repeat the same report; only newer readings count
+      if (last && timestamp <= last.timestamp) {
+        continue;
+      }
+
+      const updated = addBatterySample(samples, { timestamp, battery: device.battery }, this.sampleIntervalMs, cutoff);
+      if (updated !== samples) {
+        history ??= { ...store.history };
+        history[device.id] = updated;
+      }
+      this.evaluate(device, device.battery);
+    }
+
+    if (history) {
+      this.update({ ...store, history });
+    }
+  }
+
+  private evaluate(device: DeviceWithLocation, battery: number): void {
+    const thresholds = this.getThresholds(device.id);
+    const level = getBatteryLevel(battery, thresholds);
+    const previous = this.levels.get(device.id);
+    this.levels.set(device.id, level);
+
+    if (previous === level) {
+      return;
+    }
+
+    const candidates = level !== 'ok' && isBatteryDrop(previous, level) ? [batteryAlert(level, battery, thresholds)] : [];
+    this.alertService.report({ id: device.id, name: device.name }, candidates, clearedBatteryRuleIds(level));
+  }
+
+  private update(store: BatteryStore): void {
+    this.storeSubject.next(store);
+    this.unsaved = true;
+    this.writes$.next();
+  }
+
+  private persist(): void {
+    if (!this.unsaved || !this.accountId) {
+      return;
+    }
+    this.unsaved = false;
+
+    try {
+      localStorage.setItem(this.storageKey(this.accountId), JSON.stringify(this.storeSubject.value));
+    } catch (error) {
+      console.warn('Failed to persist battery history:', error);
+    }
+  }
+
+  private retainAccounts(accountIds: string[]): void {
+    // Readings not yet written belong to a signed-out account; drop them with its history
+    if (this.accountId && !accountIds.includes(this.accountId)) {
+      this.unsaved = false;
+    }
+
+    const retained = new Set(accountIds.map(accountId => this.storageKey(accountId)));
+
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(`${this.storageKeyPrefix}:`) && !retained.has(key))
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  private storageKey(accountId: string): string {
+    return `${this.storageKeyPrefix}:${accountId}`;
+  }
+
+  private readStored(accountId: string): BatteryStore {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey(accountId)) ?? 'null');
+      return {
+        thresholds: stored?.thresholds ?? {},
+        history: stored?.history ?? {}
+      };
+    } catch {
+      return { thresholds: {}, history: {} };
+    }
+  }
+}
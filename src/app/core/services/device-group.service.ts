@@ -0,0 +1,128 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, distinctUntilChanged } from 'rxjs';
+import { AuthService } from './auth.service';
+
+export interface DeviceGroup {
+  id: string;
+  name: string;
+  color: string;
+  deviceIds: string[];
+}
+
+export const DEVICE_GROUP_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#db2777', '#4b5563'];
+
+/**
+ * User-defined device groups (tags) of the active account. A device can be in
+ * several groups; a group is dropped when its last device leaves it. Groups
+ * are kept in local storage per account and purged when the account is
+ * signed out.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DeviceGroupService {
+  private readonly storageKeyPrefix = 'traxbean_device_groups';
+
+  private groupsSubject = new BehaviorSubject<DeviceGroup[]>([]);
+  private accountId: string | null = null;
+
+  public groups$ = this.groupsSubject.asObservable();
+
+  constructor(private authService: AuthService) {
+    this.authService.activeAccountId$.pipe(distinctUntilChanged()).subscribe(accountId => {
+      this.accountId = accountId;
+      this.groupsSubject.next(accountId ? this.readStored(accountId) : []);
+    });
+
+    this.authService.accounts$.subscribe(accounts => {
+      this.retainAccounts(accounts.map(account => account.accountId));
+    });
+  }
+
+  getGroups(): DeviceGroup[] {
+    return this.groupsSubject.value;
+  }
+
+  groupsOf(deviceId: string): DeviceGroup[] {
+    return this.groupsSubject.value.filter(group => group.deviceIds.includes(deviceId));
+  }
+
+  /**
+   * Add the device to the group with this name, creating the group if needed
+   */
+  addToNewGroup(deviceId: string, name: string): DeviceGroup | null {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    const groups = this.groupsSubject.value;
+    const existing = groups.find(group => group.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) {
+      this.setMember(existing.id, deviceId, true);
+      return existing;
+    }
+
+    const group: DeviceGroup = {
+      id: `grp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: trimmed,
+      color: DEVICE_GROUP_COLORS[groups.length % DEVICE_GROUP_COLORS.length],
+      deviceIds: [deviceId]
+    };
+    this.update([...groups, group]);
+    return group;
+  }
+
+  setMember(groupId: string, deviceId: string, member: boolean): void {
+    const groups = this.groupsSubject.value
+      .map(group => {
+        if (group.id !== groupId || group.deviceIds.includes(deviceId) === member) {
+          return group;
+        }
+        return {
+          ...group,
+          deviceIds: member ? [...group.deviceIds, deviceId] : group.deviceIds.filter(id => id !== deviceId)
+        };
+      })
+      .filter(group => group.deviceIds.length > 0);
+
+    this.update(groups);
+  }
+
+  private update(groups: DeviceGroup[]): void {
+    this.groupsSubject.next(groups);
+
+    if (!this.accountId) {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.storageKey(this.accountId), JSON.stringify(groups));
+    } catch (error) {
+      console.warn('Failed to persist device groups:', error);
+    }
+  }
+
+  private retainAccounts(accountIds: string[]): void {
+    const retained = new Set(accountIds.map(accountId => this.storageKey(accountId)));
+
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(`${this.storageKeyPrefix}:`) && !retained.has(key))
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  private storageKey(accountId: string): string {
+    return `${this.storageKeyPrefix}:${accountId}`;
+  }
+
+  private readStored(accountId: string): DeviceGroup[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey(accountId)) ?? '[]');
+      return Array.isArray(stored)
+        ? stored.filter(group => typeof group?.id === 'string' && Array.isArray(group.deviceIds))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+}
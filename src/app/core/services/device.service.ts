@@ -1,80 +1,22 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, forkJoin, map, switchMap, catchError, of } from 'rxjs';
-import { environment } from '../../../environments/environment';
+import { Observable, map } from 'rxjs';
 import { UserService } from './user.service';
+import { TraxbeanApiClient } from '../api/traxbean-api.client';
+import {
+  DeviceApiData,
+  DeviceInfoApiData,
+  IndoorLocationApiData,
+  LocationApiData
+} from '../api/traxbean-api.models';
 
-// API Response interface
-export interface ApiResponse<T> {
-  data: T;
-  code: number;
-  message: string;
-}
-
-// Device interfaces based on actual API response
-export interface DeviceApiData {
-  id: number;
-  firstName: string;
-  lastName: string;
-  targetType: number;
-  lat: string | number; // API returns as string
-  lng: string | number; // API returns as string
-  utcTime: string;
-  utcTimestamp: string;
-  battery: number;
-  strap: number | null;
-  avatar: string;
-  icon?: string;
-  imei?: string;
-  model?: string;
-  statusUtctimestamp?: string;
-  serverUrl?: string;
-}
-
-export interface LocationApiData {
-  utcTime: string;
-  lat: number;
-  lng: number;
-  speed: number;
-  alt: number;
-  dir: number;
-  timestamp: string;
-  utc: number;
-  heading: number;
-  info: any[];
-}
-
-export interface DeviceInfoApiData {
-  id: number;
-  firstName: string;
-  lastName: string;
-  imei: string;
-  lat: number;
-  lng: number;
-  battery: number;
-  strap: number;
-  signal: number;
-  heartrate: number;
-  bloodoxygen: number;
-  temperature: number;
-  steps: number;
-  systolic: number;
-  diastolic: number;
-  avatar: string;
-  utcTimestamp: string;
-}
-
-export interface IndoorLocationApiData {
-  x: number;
-  y: number;
-  utcTime: string;
-  utcTimestamp: string;
-  siteName: string;
-  floorName: string;
-  map: string;
-  height: number;
-  width: number;
-}
+// API models live with the Traxbean client; re-exported for existing imports
+export type {
+  ApiResponse,
+  DeviceApiData,
+  LocationApiData,
+  DeviceInfoApiData,
+  IndoorLocationApiData
+} from '../api/traxbean-api.models';
 
 // Our internal interfaces
 export interface Device {
@@ -83,10 +25,14 @@ export interface Device {
   type?: string;
   status?: string;
   lastSeen?: Date;
+  reportedAt?: Date; // Last status report (battery, strap); can be newer than the last fix
   targetId?: string;
   userId?: string;
   battery?: number;
+  strap?: number | null; // Raw sensor value; see getStrapState
   avatar?: string;
+  imei?: string;
+  model?: string;
 }
 
 export interface DeviceLocation {
@@ -106,49 +52,57 @@ export interface DeviceWithLocation extends Device {
   location?: DeviceLocation;
 }
 
+export type StrapState = 'on' | 'removed' | 'unknown';
+
+/**
+ * Indoor fix from `getGeoLocationLK`. `x`/`y` are pixels on the floor map
+ * image, whose natural size is `width` x `height`.
+ */
+export interface IndoorPosition {
+  deviceId: string;
+  x: number;
+  y: number;
+  timestamp: Date;
+  siteName: string;
+  floorName: string;
+  mapUrl: string;
+  width: number;
+  height: number;
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class DeviceService {
-  private readonly API_BASE_URL = environment.traxbeanApiUrl;
-
   constructor(
-    private http: HttpClient,
+    private apiClient: TraxbeanApiClient,
     private userService: UserService
   ) {}
 
-    getDevices(userId?: number): Observable<Device[]> {
+  getDevices(userId?: number): Observable<Device[]> {
     const payload = {
       type: 0,
       userId: userId || this.userService.getUserIdAsNumber() || 1
     };
 
-
-    
-    return this.http.post<ApiResponse<DeviceApiData[]>>(`${this.API_BASE_URL}/app/traxbean/listTarget`, payload)
+    return this.apiClient.listTarget(payload)
       .pipe(
-        map(response => {
-          // Check if API call was successful
-          if (response.code !== 200) {
-            throw new Error(response.message || 'Failed to fetch devices');
-          }
-          
-          // Transform API response to our Device interface
-          if (response.data && Array.isArray(response.data)) {
-            return response.data.map((item: DeviceApiData) => ({
-              id: item.id.toString(),
-              name: `${item.firstName} ${item.lastName}`.trim(),
-              type: this.getDeviceTypeString(item.targetType),
-              status: this.getDeviceStatus(item.statusUtctimestamp || item.utcTimestamp),
-              lastSeen: new Date(item.utcTime),
-              targetId: item.id.toString(),
-              userId: (userId || this.userService.getUserIdAsNumber() || 1).toString(),
-              battery: item.battery,
-              avatar: item.avatar || item.icon
-            }));
-          }
-          return [];
-        })
+        // Transform API response to our Device interface
+        map(targets => targets.map((item: DeviceApiData) => ({
+          id: item.id.toString(),
+          name: `${item.firstName} ${item.lastName}`.trim(),
+          type: this.getDeviceTypeString(item.targetType),
+          status: this.getDeviceStatus(item.statusUtctimestamp || item.utcTimestamp),
+          lastSeen: new Date(item.utcTime),
+          reportedAt: this.getReportedAt(item),
+          targetId: item.id.toString(),
+          userId: payload.userId.toString(),
+          battery: item.battery,
+          strap: item.strap,
+          avatar: item.avatar || item.icon,
+          imei: item.imei,
+          model: item.model
+        })))
       );
   }
 
@@ -162,17 +116,12 @@ export class DeviceService {
       endTime: now.toISOString()
     };
 
-    return this.http.post<ApiResponse<LocationApiData[]>>(`${this.API_BASE_URL}/app/traxbean/tracking`, payload)
+    return this.apiClient.tracking(payload)
       .pipe(
-        map(response => {
-          // Check if API call was successful
-          if (response.code !== 200) {
-            throw new Error(response.message || `Failed to get location for device ${targetId}`);
-          }
-          
+        map(points => {
           // Get the latest location from tracking data
-          if (response.data && Array.isArray(response.data) && response.data.length > 0) {
-            const latestPoint = response.data[response.data.length - 1];
+          if (points.length > 0) {
+            const latestPoint = points[points.length - 1];
             return {
               deviceId: targetId,
               latitude: latestPoint.lat,
@@ -211,56 +160,46 @@ export class DeviceService {
     return null;
   }
 
-    getAllDevicesWithLocations(): Observable<DeviceWithLocation[]> {
+  getAllDevicesWithLocations(): Observable<DeviceWithLocation[]> {
     const payload = {
       type: 0,
       userId: this.userService.getUserIdAsNumber() || 1
     };
     
-    return this.http.post<ApiResponse<DeviceApiData[]>>(`${this.API_BASE_URL}/app/traxbean/listTarget`, payload)
+    return this.apiClient.listTarget(payload)
       .pipe(
-        map(response => {
-          // Check if API call was successful
-          if (response.code !== 200) {
-            throw new Error(response.message || 'Failed to fetch devices');
-          }
+        // Transform API response to our DeviceWithLocation interface
+        map(targets => targets.map((item: DeviceApiData) => {
+          const device: Device = {
+            id: item.id.toString(),
+            name: `${item.firstName} ${item.lastName}`.trim(),
+            type: this.getDeviceTypeString(item.targetType),
+            status: this.getDeviceStatus(item.statusUtctimestamp || item.utcTimestamp),
+            lastSeen: new Date(item.utcTime),
+            reportedAt: this.getReportedAt(item),
+            targetId: item.id.toString(),
+            userId: payload.userId.toString(),
+            battery: item.battery,
+            strap: item.strap,
+            avatar: item.avatar || item.icon,
+            imei: item.imei,
+            model: item.model
+          };
           
-          // Transform API response to our DeviceWithLocation interface
-          if (response.data && Array.isArray(response.data)) {
-            return response.data.map((item: DeviceApiData) => {
-              const device: Device = {
-                id: item.id.toString(),
-                name: `${item.firstName} ${item.lastName}`.trim(),
-                type: this.getDeviceTypeString(item.targetType),
-                status: this.getDeviceStatus(item.statusUtctimestamp || item.utcTimestamp),
-                lastSeen: new Date(item.utcTime),
-                targetId: item.id.toString(),
-                userId: (this.userService.getUserIdAsNumber() || 1).toString(),
-                battery: item.battery,
-                avatar: item.avatar || item.icon
-              };
-              
-              // Extract location directly from device data
-              const location = this.extractLocationFromDevice(item) || undefined;
-              
-              return { ...device, location };
-            });
-          }
-          return [];
-        })
+          // Extract location directly from device data
+          const location = this.extractLocationFromDevice(item) || undefined;
+          
+          return { ...device, location };
+        }))
       );
   }
 
   getDeviceInfo(targetId: string): Observable<DeviceInfoApiData> {
-    const payload = { targetId: parseInt(targetId) };
-    return this.http.post<ApiResponse<DeviceInfoApiData[]>>(`${this.API_BASE_URL}/app/traxbean/getTargetInfo`, payload)
+    return this.apiClient.getTargetInfo(parseInt(targetId))
       .pipe(
-        map(response => {
-          if (response.code !== 200) {
-            throw new Error(response.message || 'Failed to get device info');
-          }
-          if (response.data && Array.isArray(response.data) && response.data.length > 0) {
-            return response.data[0];
+        map(targets => {
+          if (targets.length > 0) {
+            return targets[0];
           }
           throw new Error(`No device info found for ${targetId}`);
         })
@@ -268,43 +207,52 @@ export class DeviceService {
   }
 
   getIndoorLocation(targetId: string): Observable<IndoorLocationApiData> {
-    const payload = { targetId: parseInt(targetId) };
-    return this.http.post<ApiResponse<IndoorLocationApiData>>(`${this.API_BASE_URL}/app/traxbean/getGeoLocationLK`, payload)
-      .pipe(
-        map(response => {
-          if (response.code !== 200) {
-            throw new Error(response.message || 'Failed to get indoor location');
-          }
-          return response.data;
-        })
-      );
+    return this.apiClient.getGeoLocationLK(parseInt(targetId));
+  }
+
+  /**
+   * The device's indoor fix, or null when it has none or no floor map to draw it on
+   */
+  getIndoorPosition(targetId: string): Observable<IndoorPosition | null> {
+    return this.getIndoorLocation(targetId).pipe(
+      map(data => {
+        if (!data || !data.map || !(data.width > 0) || !(data.height > 0) ||
+            !Number.isFinite(data.x) || !Number.isFinite(data.y)) {
+          return null;
+        }
+
+        const timestamp = parseInt(data.utcTimestamp, 10);
+        return {
+          deviceId: targetId,
+          x: data.x,
+          y: data.y,
+          timestamp: isNaN(timestamp) ? new Date(data.utcTime) : new Date(timestamp),
+          siteName: data.siteName || 'Unknown site',
+          floorName: data.floorName || 'Unknown floor',
+          mapUrl: data.map,
+          width: data.width,
+          height: data.height
+        };
+      })
+    );
   }
 
   // Historical data methods based on API specification
   checkPlaybackAvailability(targetId: string, year: number, month: number): Observable<number[]> {
-    const payload = { targetId: parseInt(targetId), year, month };
-    return this.http.post<ApiResponse<number[]>>(`${this.API_BASE_URL}/app/traxbean/playbackExist`, payload)
-      .pipe(
-        map(response => {
-          if (response.code !== 200) {
-            throw new Error(response.message || 'Failed to check playback availability');
-          }
-          return response.data || [];
-        })
-      );
+    return this.apiClient.playbackExist({ targetId: parseInt(targetId), year, month });
   }
 
   getPlaybackData(targetId: string, year: number, month: number, day: number): Observable<LocationApiData[]> {
-    const payload = { targetId: parseInt(targetId), year, month, day };
-    return this.http.post<ApiResponse<LocationApiData[]>>(`${this.API_BASE_URL}/app/traxbean/playback`, payload)
-      .pipe(
-        map(response => {
-          if (response.code !== 200) {
-            throw new Error(response.message || 'Failed to get playback data');
-          }
-          return response.data || [];
-        })
-      );
+    return this.apiClient.playback({ targetId: parseInt(targetId), year, month, day });
+  }
+
+  /**
+   * Traxbean reports `strap: 0` while the band is fastened and a non-zero value
+   * once it is opened or taken off; null means the device has no strap sensor
+   */
+  getStrapState(strap: number | null | undefined): StrapState {
+    if (strap === null || strap === undefined) return 'unknown';
+    return strap === 0 ? 'on' : 'removed';
   }
 
   // Helper methods
@@ -318,7 +266,15 @@ export class DeviceService {
     return types[targetType] || 'Device';
   }
 
-  private getDeviceStatus(utcTimestamp: string): string {
+  /**
+   * Time of the device's last status report, or undefined when the record has none
+   */
+  private getReportedAt(item: DeviceApiData): Date | undefined {
+    const timestamp = parseInt(item.statusUtctimestamp || item.utcTimestamp, 10);
+    return isNaN(timestamp) ? undefined : new Date(timestamp);
+  }
+
+  getDeviceStatus(utcTimestamp: string): string {
     const lastUpdate = new Date(parseInt(utcTimestamp));
     const now = new Date();
     const diffMinutes = (now.getTime() - lastUpdate.getTime()) / (1000 * 60);
@@ -1,10 +1,58 @@
 import { Injectable } from '@angular/core';
 import { HttpErrorResponse } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
 
-export interface ApiError {
-  code: number;
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'API_ERROR'
+  | 'UNKNOWN';
+
+export interface ApiErrorInit {
+  code: ApiErrorCode;
   message: string;
   userMessage: string;
+  retryable: boolean;
+  status?: number;
+  url?: string | null;
+  details?: unknown;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Normalized failure of a backend call.
+ * Has the same shape as LocationHistoryError (code, message, details,
+ * timestamp, retryable), plus the HTTP status and a user-facing message.
+ * For API_ERROR the status is the Traxbean envelope `code`.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly userMessage: string;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly url?: string | null;
+  readonly details?: unknown;
+  readonly retryAfterSeconds?: number;
+  readonly timestamp = new Date();
+
+  constructor(init: ApiErrorInit) {
+    super(init.message);
+    this.name = 'ApiError';
+    this.code = init.code;
+    this.userMessage = init.userMessage;
+    this.retryable = init.retryable;
+    this.status = init.status;
+    this.url = init.url;
+    this.details = init.details;
+    this.retryAfterSeconds = init.retryAfterSeconds;
+  }
 }
 
 @Injectable({
@@ -14,60 +62,62 @@ export class ErrorHandlerService {
 
   constructor() { }
 
-  handleApiError(error: any): ApiError {
-    let code = 500;
+  /**
+   * Turn any failure (HTTP error, timeout, thrown Error, string) into an ApiError
+   */
+  handleApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    if (error instanceof HttpErrorResponse) {
+      return this.fromHttpError(error);
+    }
+
+    if (error instanceof TimeoutError) {
+      return new ApiError({
+        code: 'TIMEOUT',
+        message: error.message,
+        userMessage: 'The server took too long to respond. Please try again.',
+        retryable: true
+      });
+    }
+
+    const anyError = error as { message?: string; error?: { message?: string } } | null;
     let message = 'Unknown error';
     let userMessage = 'An unexpected error occurred. Please try again.';
 
-    if (error instanceof HttpErrorResponse) {
-      code = error.status;
-      message = error.message;
-
-      switch (code) {
-        case 0:
-          userMessage = 'Network error. Please check your internet connection.';
-          break;
-        case 400:
-          userMessage = 'Invalid request. Please check your input.';
-          break;
-        case 401:
-          userMessage = 'Authentication failed. Please login again.';
-          break;
-        case 403:
-          userMessage = 'Access denied. You don\'t have permission for this action.';
-          break;
-        case 404:
-          userMessage = 'Resource not found.';
-          break;
-        case 429:
-          userMessage = 'Too many requests. Please wait a moment and try again.';
-          break;
-        case 500:
-          userMessage = 'Server error. Please try again later.';
-          break;
-        case 503:
-          userMessage = 'Service temporarily unavailable. Please try again later.';
-          break;
-        default:
-          userMessage = `Error ${code}: ${error.error?.message || error.message || 'Unknown error'}`;
-      }
-    } else if (error?.error?.message) {
+    if (anyError?.error?.message) {
       // API returned an error message
-      message = error.error.message;
-      userMessage = error.error.message;
+      message = anyError.error.message;
+      userMessage = anyError.error.message;
     } else if (typeof error === 'string') {
       message = error;
       userMessage = error;
-    } else if (error?.message) {
-      message = error.message;
-      userMessage = error.message;
+    } else if (anyError?.message) {
+      message = anyError.message;
+      userMessage = anyError.message;
     }
 
-    return {
-      code,
+    return new ApiError({ code: 'UNKNOWN', message, userMessage, retryable: false, details: error });
+  }
+
+  /**
+   * Error for a Traxbean response that arrived with HTTP 200 but a non-200 `code`
+   */
+  fromEnvelope(envelope: { code?: number; message?: string }, url?: string | null): ApiError {
+    const code = envelope.code ?? 500;
+    const message = envelope.message || `Traxbean request failed with code ${code}`;
+
+    return new ApiError({
+      code: 'API_ERROR',
       message,
-      userMessage
-    };
+      userMessage: message,
+      retryable: code === 429 || code >= 500,
+      status: code,
+      url,
+      details: envelope
+    });
   }
 
   getNetworkErrorMessage(): string {
@@ -81,4 +131,59 @@ export class ErrorHandlerService {
   getGenericErrorMessage(): string {
     return 'Something went wrong. Please try again later.';
   }
-} 
\ No newline at end of file
+
+  private fromHttpError(error: HttpErrorResponse): ApiError {
+    const status = error.status;
+    const base = { message: error.message, status, url: error.url, details: error.error };
+
+    switch (status) {
+      case 0:
+        return new ApiError({ ...base, code: 'NETWORK_ERROR', retryable: true,
+          userMessage: 'Network error. Please check your internet connection.' });
+      case 400:
+        return new ApiError({ ...base, code: 'BAD_REQUEST', retryable: false,
+          userMessage: 'Invalid request. Please check your input.' });
+      case 401:
+        return new ApiError({ ...base, code: 'UNAUTHORIZED', retryable: false,
+          userMessage: 'Authentication failed. Please login again.' });
+      case 403:
+        return new ApiError({ ...base, code: 'FORBIDDEN', retryable: false,
+          userMessage: 'Access denied. You don\'t have permission for this action.' });
+      case 404:
+        return new ApiError({ ...base, code: 'NOT_FOUND', retryable: false,
+          userMessage: 'Resource not found.' });
+      case 429:
+        return new ApiError({ ...base, code: 'RATE_LIMITED', retryable: true,
+          userMessage: 'Too many requests. Please wait a moment and try again.',
+          retryAfterSeconds: this.parseRetryAfter(error.headers?.get('Retry-After')) });
+      case 503:
+        return new ApiError({ ...base, code: 'SERVICE_UNAVAILABLE', retryable: true,
+          userMessage: 'Service temporarily unavailable. Please try again later.',
+          retryAfterSeconds: this.parseRetryAfter(error.headers?.get('Retry-After')) });
+      default:
+        if (status >= 500) {
+          return new ApiError({ ...base, code: 'SERVER_ERROR', retryable: true,
+            userMessage: 'Server error. Please try again later.' });
+        }
+        return new ApiError({ ...base, code: 'UNKNOWN', retryable: false,
+          userMessage: `Error ${status}: ${error.error?.message || error.message || 'Unknown error'}` });
+    }
+  }
+
+  /**
+   * Retry-After is either a number of seconds or an HTTP date
+   */
+  private parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, Math.ceil(seconds));
+    }
+
+    const retryAt = Date.parse(value);
+    return isNaN(retryAt) ? undefined : Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+  }
+}
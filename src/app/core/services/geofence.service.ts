@@ -0,0 +1,200 @@
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject, EMPTY, Subject, Subscription, catchError, concatMap, distinctUntilChanged, of, switchMap, tap } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { GeofenceDetector, GeofenceEventType } from '../geofences/geofence-detector';
+import { GEOFENCE_COLORS, GeoPoint, Geofence, GeofenceShape, isValidShape } from '../geofences/geofence-geometry';
+import { GEOFENCE_STORE, GeofenceStore } from '../geofences/geofence-stores';
+import { AuthService } from './auth.service';
+import { DeviceWithLocation } from './device.service';
+import { LivePositionService } from './live-position.service';
+import { NotificationService } from './notification.service';
+
+export interface GeofenceEvent {
+  id: string;
+  type: GeofenceEventType;
+  geofenceId: string;
+  geofenceName: string;
+  deviceId: string;
+  deviceName: string;
+  timestamp: number; // Fix time, epoch milliseconds
+  position: GeoPoint;
+}
+
+export type GeofenceChanges = Partial<Pick<Geofence, 'name' | 'color' | 'shape' | 'dwellMinutes'>>;
+
+/**
+ * Geofences of the active account and the enter/exit/dwell events of the
+ * dashboard devices. Geofences are persisted through GEOFENCE_STORE, one save
+ * at a time so the store always ends up with the latest edit; events are kept
+ * in memory for the current session only.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GeofenceService {
+  private readonly config = environment.geofences;
+
+  private geofencesSubject = new BehaviorSubject<Geofence[]>([]);
+  private eventsSubject = new BehaviorSubject<GeofenceEvent[]>([]);
+  private accountId: string | null = null;
+  private subscription: Subscription | null = null;
+  private detectors = new Map<string, GeofenceDetector>();
+  private saves$ = new Subject<{ accountId: string; geofences: Geofence[] }>();
+
+  public geofences$ = this.geofencesSubject.asObservable();
+  public events$ = this.eventsSubject.asObservable();
+
+  constructor(
+    @Inject(GEOFENCE_STORE) private store: GeofenceStore,
+    private authService: AuthService,
+    private livePositionService: LivePositionService,
+    private notificationService: NotificationService
+  ) {
+    this.authService.activeAccountId$.pipe(
+      distinctUntilChanged(),
+      tap(accountId => {
+        this.accountId = accountId;
+        this.detectors.clear();
+        this.geofencesSubject.next([]);
+        this.eventsSubject.next([]);
+      }),
+      switchMap(accountId => accountId
+        ? this.store.load(accountId).pipe(catchError(error => {
+            this.notificationService.error(error, 'Geofences unavailable');
+            return of([]);
+          }))
+        : of([]))
+    ).subscribe(geofences => {
+      this.geofencesSubject.next(geofences.filter(geofence => isValidShape(geofence?.shape)));
+    });
+
+    this.authService.accounts$.subscribe(accounts => {
+      this.store.retainAccounts?.(accounts.map(account => account.accountId));
+    });
+
+    this.saves$.pipe(
+      concatMap(({ accountId, geofences }) => this.store.save(accountId, geofences).pipe(
+        catchError(error => {
+          this.notificationService.error(error, 'Geofences not saved');
+          return EMPTY;
+        })
+      ))
+    ).subscribe();
+  }
+
+  /**
+   * Check every dashboard position update against the geofences
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    this.subscription = this.livePositionService.devices$.subscribe(devices => this.check(devices));
+  }
+
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    this.detectors.clear();
+  }
+
+  getGeofences(): Geofence[] {
+    return this.geofencesSubject.value;
+  }
+
+  create(name: string, shape: GeofenceShape, dwellMinutes: number = this.config.defaultDwellMinutes): Geofence {
+    const now = Date.now();
+    const existing = this.geofencesSubject.value;
+    const geofence: Geofence = {
+      id: `gf-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || `Geofence ${existing.length + 1}`,
+      color: GEOFENCE_COLORS[existing.length % GEOFENCE_COLORS.length],
+      shape,
+      dwellMinutes,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.persist([...existing, geofence]);
+    return geofence;
+  }
+
+  update(geofenceId: string, changes: GeofenceChanges): void {
+    // Inside/outside was judged against the old shape; moving the boundary is not a device entering or leaving
+    if (changes.shape) {
+      this.detectors.forEach(detector => detector.forget(geofenceId));
+    }
+
+    this.persist(this.geofencesSubject.value.map(geofence => geofence.id === geofenceId
+      ? { ...geofence, ...changes, updatedAt: Date.now() }
+      : geofence));
+  }
+
+  remove(geofenceId: string): void {
+    this.persist(this.geofencesSubject.value.filter(geofence => geofence.id !== geofenceId));
+  }
+
+  clearEvents(): void {
+    this.eventsSubject.next([]);
+  }
+
+  private check(devices: DeviceWithLocation[]): void {
+    const geofences = this.geofencesSubject.value;
+    const events: GeofenceEvent[] = [];
+
+    devices.forEach(device => {
+      if (!device.location) {
+        return;
+      }
+
+      let detector = this.detectors.get(device.id);
+      if (!detector) {
+        detector = new GeofenceDetector();
+        this.detectors.set(device.id, detector);
+      }
+
+      const position = { lat: device.location.latitude, lng: device.location.longitude };
+      detector.observe(position, device.location.timestamp.getTime(), geofences).forEach(transition => {
+        events.push({
+          id: `${device.id}-${transition.geofence.id}-${transition.type}-${transition.timestamp}`,
+          type: transition.type,
+          geofenceId: transition.geofence.id,
+          geofenceName: transition.geofence.name,
+          deviceId: device.id,
+          deviceName: device.name,
+          timestamp: transition.timestamp,
+          position: transition.position
+        });
+      });
+    });
+
+    if (events.length === 0) {
+      return;
+    }
+
+    this.eventsSubject.next([...events.reverse(), ...this.eventsSubject.value].slice(0, this.config.maxEvents));
+    events.forEach(event => this.notificationService.info(
+      `${event.deviceName} ${this.describe(event.type)} ${event.geofenceName}`
+    ));
+  }
+
+  private describe(type: GeofenceEventType): string {
+    switch (type) {
+      case 'enter': return 'entered';
+      case 'exit': return 'left';
+      default: return 'is dwelling in';
+    }
+  }
+
+  private persist(geofences: Geofence[]): void {
+    this.geofencesSubject.next(geofences);
+
+    const accountId = this.accountId;
+    if (!accountId) {
+      return;
+    }
+
+    this.saves$.next({ accountId, geofences });
+  }
+}
@@ -0,0 +1,30 @@
+import { ErrorHandler, Injectable, Injector } from '@angular/core';
+import { TelemetryService } from './telemetry.service';
+
+/**
+ * Replaces Angular's default ErrorHandler so uncaught errors reach telemetry
+ * as well as the console
+ */
+@Injectable()
+export class GlobalErrorHandler implements ErrorHandler {
+  constructor(private injector: Injector) {}
+
+  handleError(error: unknown): void {
+    console.error(error);
+
+    try {
+      // Resolved lazily: the ErrorHandler is created before most of the app
+      this.injector.get(TelemetryService).trackError(this.unwrap(error), { source: 'uncaught' });
+    } catch (telemetryError) {
+      console.error('Failed to report error to telemetry:', telemetryError);
+    }
+  }
+
+  /**
+   * Unhandled promise rejections arrive wrapped by zone.js
+   */
+  private unwrap(error: unknown): unknown {
+    const rejection = (error as { rejection?: unknown } | null)?.rejection;
+    return rejection ?? error;
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, EMPTY, Subject, Subscription, fromEvent, merge, timer } from 'rxjs';
+import { filter, startWith, switchMap, throttleTime } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { AuthService } from './auth.service';
+
+/**
+ * Locks the screen after `session.idleLockMinutes` without input. The lock is
+ * kept in session storage so reloading the tab does not get around it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleActivityService implements OnDestroy {
+  private readonly activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+  private readonly idleTimeoutMs = environment.session.idleLockMinutes * 60 * 1000;
+  private readonly lockedKey = 'traxbean_idle_locked';
+
+  private isLockedSubject = new BehaviorSubject<boolean>(sessionStorage.getItem(this.lockedKey) === 'true');
+  private manualActivity = new Subject<void>();
+  private watchSubscription?: Subscription;
+
+  public isLocked$ = this.isLockedSubject.asObservable();
+
+  constructor(
+    private authService: AuthService,
+    private ngZone: NgZone
+  ) {}
+
+  /**
+   * Start watching user input while a session is active.
+   * Listeners run outside the Angular zone so mouse movement does not trigger change detection.
+   */
+  start(): void {
+    if (this.watchSubscription || this.idleTimeoutMs <= 0) {
+      return;
+    }
+
+    this.ngZone.runOutsideAngular(() => {
+      const activity$ = merge(
+        this.manualActivity,
+        ...this.activityEvents.map(eventName => fromEvent(document, eventName, { passive: true }))
+      ).pipe(
+        filter(() => !this.isLockedSubject.value),
+        throttleTime(1000),
+        startWith(null)
+      );
+
+      this.watchSubscription = this.authService.isAuthenticated$.pipe(
+        switchMap(isAuthenticated => {
+          if (!isAuthenticated) {
+            this.ngZone.run(() => this.setLocked(false));
+            return EMPTY;
+          }
+          return activity$.pipe(switchMap(() => timer(this.idleTimeoutMs)));
+        })
+      ).subscribe(() => this.ngZone.run(() => this.lock()));
+    });
+  }
+
+  stop(): void {
+    this.watchSubscription?.unsubscribe();
+    this.watchSubscription = undefined;
+  }
+
+  lock(): void {
+    this.setLocked(true);
+  }
+
+  /**
+   * Unlock the screen and restart the idle countdown
+   */
+  unlock(): void {
+    this.setLocked(false);
+    this.manualActivity.next();
+  }
+
+  isLocked(): boolean {
+    return this.isLockedSubject.value;
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  private setLocked(locked: boolean): void {
+    if (locked) {
+      sessionStorage.setItem(this.lockedKey, 'true');
+    } else {
+      sessionStorage.removeItem(this.lockedKey);
+    }
+    this.isLockedSubject.next(locked);
+  }
+}
@@ -0,0 +1,279 @@
+import { Inject, Injectable } from '@angular/core';
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  Subscription,
+  catchError,
+  concatWith,
+  defer,
+  distinctUntilChanged,
+  finalize,
+  ignoreElements,
+  map,
+  merge,
+  of,
+  retry,
+  switchMap,
+  tap,
+  throwError,
+  timer
+} from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { LivePositionUpdate, POSITION_CHANNEL, PositionChannel } from '../live/position-channels';
+import { AdaptivePoller, PollerState } from '../polling/adaptive-poller';
+import { AuthService } from './auth.service';
+import { DeviceLocation, DeviceService, DeviceWithLocation } from './device.service';
+import { NotificationService } from './notification.service';
+import { TelemetryService } from './telemetry.service';
+
+// Roughly ten metres; smaller differences are treated as GPS jitter
+const MOVEMENT_THRESHOLD_DEGREES = 0.0001;
+
+export type LiveConnectionState = 'idle' | 'connecting' | 'live' | 'polling';
+
+/**
+ * Keeps the dashboard device list current. Full snapshots come from
+ * `listTarget`, at start, on reconnect and every `snapshotIntervalSeconds`;
+ * between snapshots, per-device updates from the configured push channel are
+ * merged in place. Falls back to polling when no channel is
+ * configured or it cannot be (re)connected.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LivePositionService {
+  private readonly config = environment.livePositions;
+
+  private devicesSubject = new BehaviorSubject<DeviceWithLocation[]>([]);
+  private connectionStateSubject = new BehaviorSubject<LiveConnectionState>('idle');
+  private pollingStateSubject = new BehaviorSubject<PollerState | null>(null);
+  private streamSubscription: Subscription | null = null;
+
+  public devices$ = this.devicesSubject.asObservable();
+  public connectionState$ = this.connectionStateSubject.asObservable().pipe(distinctUntilChanged());
+  /** Interval and next refresh of the polling fallback; null while not polling */
+  public pollingState$ = this.pollingStateSubject.asObservable();
+
+  constructor(
+    @Inject(POSITION_CHANNEL) private channel: PositionChannel | null,
+    private deviceService: DeviceService,
+    private authService: AuthService,
+    private notificationService: NotificationService,
+    private telemetry: TelemetryService
+  ) {}
+
+  /**
+   * Start receiving updates for the active account. The stream restarts when
+   * another account is selected and stops while signed out.
+   */
+  start(): void {
+    if (this.streamSubscription) {
+      return;
+    }
+
+    this.streamSubscription = this.authService.activeAccountId$.pipe(
+      distinctUntilChanged(),
+      switchMap(accountId => {
+        this.devicesSubject.next([]);
+        if (!accountId) {
+          this.connectionStateSubject.next('idle');
+          return EMPTY;
+        }
+        return this.channel ? this.push(this.channel) : this.poll();
+      })
+    ).subscribe();
+  }
+
+  stop(): void {
+    this.streamSubscription?.unsubscribe();
+    this.streamSubscription = null;
+    this.connectionStateSubject.next('idle');
+  }
+
+  /**
+   * Load a full snapshot and replace the list with it. Errors are left to the
+   * caller; a response for an account that is no longer active is discarded.
+   */
+  refresh(): Observable<DeviceWithLocation[]> {
+    const accountId = this.authService.getActiveAccountId();
+
+    return this.deviceService.getAllDevicesWithLocations().pipe(
+      tap(devices => {
+        if (accountId === this.authService.getActiveAccountId()) {
+          this.devicesSubject.next(devices);
+        }
+      })
+    );
+  }
+
+  getDevices(): DeviceWithLocation[] {
+    return this.devicesSubject.value;
+  }
+
+  getConnectionState(): LiveConnectionState {
+    return this.connectionStateSubject.value;
+  }
+
+  private push(channel: PositionChannel): Observable<unknown> {
+    const updates$ = defer(() => {
+      this.connectionStateSubject.next('connecting');
+      return channel.connect(this.authService.getAuthToken());
+    }).pipe(
+      // A clean close is treated like a failure so it goes through the same reconnect path
+      concatWith(throwError(() => new Error('Live position channel closed'))),
+      tap(updates => {
+        this.connectionStateSubject.next('live');
+        this.applyUpdates(updates);
+      }),
+      retry({
+        count: this.config.reconnectAttempts,
+        resetOnSuccess: true,
+        // Catch up on anything missed while disconnected before reconnecting
+        delay: () => timer(this.config.reconnectDelaySeconds * 1000).pipe(
+          switchMap(() => this.refresh().pipe(catchError(() => of(null))))
+        )
+      })
+    );
+
+    return merge(updates$, this.snapshots(channel)).pipe(
+      catchError(error => {
+        this.telemetry.trackError(error, { source: 'live-positions', transport: channel.transport });
+        return this.poll();
+      })
+    );
+  }
+
+  /**
+   * Pushed updates only move known devices; periodic snapshots add new
+   * targets and let device status decay to offline
+   */
+  private snapshots(channel: PositionChannel): Observable<unknown> {
+    const intervalMs = this.config.snapshotIntervalSeconds * 1000;
+
+    return new AdaptivePoller(() => this.refresh(), {
+      intervalMs,
+      maxIntervalMs: Math.max(intervalMs, this.config.maxPollIntervalSeconds * 1000),
+      onError: error => this.telemetry.trackError(error, { source: 'live-positions-snapshot', transport: channel.transport })
+    }).run();
+  }
+
+  private poll(): Observable<unknown> {
+    return defer(() => {
+      const poller = new AdaptivePoller(
+        () => {
+          const previous = this.devicesSubject.value;
+          return this.refresh().pipe(map(devices => this.hasMovement(previous, devices)));
+        },
+        {
+          intervalMs: this.config.pollIntervalSeconds * 1000,
+          fastIntervalMs: this.config.fastPollIntervalSeconds * 1000,
+          maxIntervalMs: this.config.maxPollIntervalSeconds * 1000,
+          isActive: moving => moving,
+          // One toast per outage; the header shows the backoff while it lasts
+          onError: (error, consecutiveErrors) => {
+            if (consecutiveErrors === 1) {
+              this.notificationService.error(error, 'Error Loading Devices');
+            }
+          }
+        }
+      );
+
+      this.connectionStateSubject.next('polling');
+      return merge(
+        poller.run(),
+        poller.state$.pipe(tap(state => this.pollingStateSubject.next(state)), ignoreElements())
+      ).pipe(finalize(() => this.pollingStateSubject.next(null)));
+    });
+  }
+
+  /**
+   * True when any device reports speed or has moved since the previous snapshot
+   */
+  private hasMovement(previous: DeviceWithLocation[], next: DeviceWithLocation[]): boolean {
+    const previousById = new Map(previous.map(device => [device.id, device.location]));
+
+    return next.some(device => {
+      const location = device.location;
+      const before = previousById.get(device.id);
+      if (!location) {
+        return false;
+      }
+      if ((location.speed ?? 0) > 0) {
+        return true;
+      }
+      return !!before && (
+        Math.abs(before.latitude - location.latitude) > MOVEMENT_THRESHOLD_DEGREES ||
+        Math.abs(before.longitude - location.longitude) > MOVEMENT_THRESHOLD_DEGREES
+      );
+    });
+  }
+
+  /**
+   * Merge pushed positions into the current list. Updates for unknown devices
+   * wait for the next snapshot, and reports older than the current fix are ignored.
+   */
+  private applyUpdates(updates: LivePositionUpdate[]): void {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const updatesById = new Map(updates.map(update => [String(update.targetId), update]));
+    let changed = false;
+
+    const devices = this.devicesSubject.value.map(device => {
+      const update = updatesById.get(device.id);
+      const location = update ? this.toLocation(device.id, update) : null;
+
+      if (!update || !location ||
+          (device.location && device.location.timestamp.getTime() > location.timestamp.getTime())) {
+        return device;
+      }
+
+      changed = true;
+      return {
+        ...device,
+        location,
+        lastSeen: location.timestamp,
+        reportedAt: location.timestamp,
+        status: this.deviceService.getDeviceStatus(String(location.timestamp.getTime())),
+        battery: update.battery ?? device.battery,
+        strap: update.strap !== undefined ? update.strap : device.strap
+      };
+    });
+
+    if (changed) {
+      this.devicesSubject.next(devices);
+    }
+  }
+
+  private toLocation(deviceId: string, update: LivePositionUpdate): DeviceLocation | null {
+    const latitude = Number(update.lat);
+    const longitude = Number(update.lng);
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || (latitude === 0 && longitude === 0)) {
+      return null;
+    }
+
+    return {
+      deviceId,
+      targetId: deviceId,
+      latitude,
+      longitude,
+      timestamp: this.parseTime(update.utcTime),
+      speed: update.speed,
+      heading: update.heading,
+      altitude: update.altitude
+    };
+  }
+
+  private parseTime(value: number | string | undefined): Date {
+    if (value === undefined || value === '') {
+      return new Date();
+    }
+
+    const numeric = Number(value);
+    const date = new Date(Number.isFinite(numeric) ? numeric : value);
+    return isNaN(date.getTime()) ? new Date() : date;
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable } from '@angular/core';
+import { MessageService } from 'primeng/api';
+import { ApiError, ErrorHandlerService } from './error-handler.service';
+
+// Key of the application-wide <p-toast> rendered by AppComponent
+export const GLOBAL_TOAST_KEY = 'global';
+
+type NotificationSeverity = 'success' | 'info' | 'warn' | 'error';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  // Identical notifications within this window are shown once
+  private readonly dedupeWindowMs = 5000;
+  private recentNotifications = new Map<string, number>();
+
+  constructor(
+    private messageService: MessageService,
+    private errorHandler: ErrorHandlerService
+  ) {}
+
+  success(summary: string, detail?: string): void {
+    this.show('success', summary, detail, 3000);
+  }
+
+  info(summary: string, detail?: string): void {
+    this.show('info', summary, detail, 3000);
+  }
+
+  warn(summary: string, detail?: string): void {
+    this.show('warn', summary, detail, 5000);
+  }
+
+  /**
+   * Report a failure to the user and return it normalized
+   */
+  error(error: unknown, summary = 'Error'): ApiError {
+    const apiError = this.errorHandler.handleApiError(error);
+    const detail = apiError.retryable
+      ? `${apiError.userMessage} This is usually temporary.`
+      : apiError.userMessage;
+
+    this.show('error', summary, detail, 6000);
+    return apiError;
+  }
+
+  private show(severity: NotificationSeverity, summary: string, detail: string | undefined, life: number): void {
+    const now = Date.now();
+    const dedupeKey = `${severity}|${summary}|${detail ?? ''}`;
+    const lastShown = this.recentNotifications.get(dedupeKey);
+
+    if (lastShown !== undefined && now - lastShown < this.dedupeWindowMs) {
+      return;
+    }
+
+    this.recentNotifications.set(dedupeKey, now);
+    for (const [key, shownAt] of this.recentNotifications) {
+      if (now - shownAt >= this.dedupeWindowMs) {
+        this.recentNotifications.delete(key);
+      }
+    }
+
+    this.messageService.add({ key: GLOBAL_TOAST_KEY, severity, summary, detail, life });
+  }
+}
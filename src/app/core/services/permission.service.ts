@@ -0,0 +1,75 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map, distinctUntilChanged } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { Permission } from '../auth/permission';
+import { AuthService, UserContext } from './auth.service';
+
+export type { Permission } from '../auth/permission';
+
+// Permissions granted per Traxbean `userType`; see `environment.permissions`
+const ROLE_PERMISSIONS: Record<number, Permission[]> = environment.permissions.roles;
+
+const DEFAULT_USER_TYPE = environment.permissions.defaultUserType;
+
+// Users not yet assigned to a department are awaiting approval in Traxbean
+const UNASSIGNED_PERMISSIONS: Permission[] = environment.permissions.unassigned;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionService {
+  public readonly permissions$: Observable<Permission[]>;
+
+  constructor(private authService: AuthService) {
+    this.permissions$ = this.authService.currentUser$.pipe(
+      map(user => this.resolvePermissions(user)),
+      distinctUntilChanged((a, b) => a.join() === b.join())
+    );
+  }
+
+  /**
+   * Check whether the current user holds all of the given permissions
+   */
+  hasPermission(required: Permission | Permission[]): boolean {
+    return this.satisfies(this.resolvePermissions(this.authService.getCurrentUser()), required);
+  }
+
+  /**
+   * Reactive variant of hasPermission that follows login/logout
+   */
+  hasPermission$(required: Permission | Permission[]): Observable<boolean> {
+    return this.permissions$.pipe(
+      map(granted => this.satisfies(granted, required)),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Whether the user still waits for a department, and so only gets the
+   * `unassigned` permissions whatever their type
+   */
+  isAwaitingApproval(user: UserContext | null = this.authService.getCurrentUser()): boolean {
+    return user !== null && !(Number.isInteger(user.departmentId) && user.departmentId > 0);
+  }
+
+  /**
+   * Derive the permission set from the user's type and department
+   */
+  resolvePermissions(user: UserContext | null): Permission[] {
+    if (!user) {
+      return [];
+    }
+
+    if (this.isAwaitingApproval(user)) {
+      return [...UNASSIGNED_PERMISSIONS];
+    }
+
+    return [...(ROLE_PERMISSIONS[user.userType] || ROLE_PERMISSIONS[DEFAULT_USER_TYPE])];
+  }
+
+  private satisfies(granted: Permission[], required: Permission | Permission[]): boolean {
+    const requiredList = Array.isArray(required) ? required : [required];
+    return requiredList.every(permission => granted.includes(permission));
+  }
+}
@@ -0,0 +1,90 @@
+import { Injectable } from '@angular/core';
+import { Router } from '@angular/router';
+import { Observable, of, timer } from 'rxjs';
+import { map, switchMap, takeWhile, distinctUntilChanged, shareReplay } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { AuthService } from './auth.service';
+import { RETURN_URL_PARAM } from '../guards/auth.guard';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionTimeoutService {
+  private readonly warningLeadTimeMs = environment.session.warningLeadTimeMinutes * 60 * 1000;
+  private readonly refreshLeadTimeMs = environment.session.refreshLeadTimeSeconds * 1000;
+
+  /**
+   * Seconds left before the session expires, emitted every second once the
+   * warning window opens. Emits null while no warning should be shown.
+   * A session that renews silently only warns when its refresh has not gone
+   * through halfway into the refresh lead time.
+   */
+  public readonly secondsRemaining$: Observable<number | null>;
+
+  constructor(
+    private authService: AuthService,
+    private router: Router
+  ) {
+    this.secondsRemaining$ = this.authService.sessionExpiresAt$.pipe(
+      switchMap(expiresAt => {
+        if (!expiresAt) {
+          return of(null);
+        }
+
+        const leadTimeMs = this.authService.canRefreshSession()
+          ? Math.min(this.warningLeadTimeMs, this.refreshLeadTimeMs / 2)
+          : this.warningLeadTimeMs;
+        const warnAt = new Date(Math.max(Date.now(), expiresAt.getTime() - leadTimeMs));
+        return timer(warnAt, 1000).pipe(
+          map(() => Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / 1000))),
+          takeWhile(seconds => seconds > 0, true)
+        );
+      }),
+      distinctUntilChanged(),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+  }
+
+  /**
+   * Whether extending the session requires the user to re-enter a password
+   */
+  requiresPassword(): boolean {
+    return !this.authService.canRefreshSession();
+  }
+
+  /**
+   * Extend the session: renew silently when possible, otherwise
+   * re-authenticate the current user with the supplied password
+   */
+  extendSession(password?: string): Observable<unknown> {
+    if (this.authService.canRefreshSession()) {
+      return this.authService.refreshSession();
+    }
+
+    const user = this.authService.getCurrentUser();
+    if (!user || !password) {
+      throw new Error('Password is required to stay signed in.');
+    }
+
+    return this.authService.authenticate({
+      username: user.username,
+      password,
+      clientId: this.authService.getActiveAccount()?.clientId
+    });
+  }
+
+  /**
+   * End the active account's session. Another signed-in account takes over
+   * if there is one; otherwise return to the login page, keeping the current
+   * page as the return URL when the session simply expired.
+   */
+  signOut(preserveLocation = false): void {
+    const returnUrl = this.router.url;
+    if (this.authService.signOutAccount()) {
+      return;
+    }
+    this.router.navigate(['/login'], {
+      queryParams: preserveLocation ? { [RETURN_URL_PARAM]: returnUrl } : {}
+    });
+  }
+}
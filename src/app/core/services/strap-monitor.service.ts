@@ -0,0 +1,155 @@
+import { Injectable } from '@angular/core';
+import { Subscription, distinctUntilChanged } from 'rxjs';
+import { vitalReadingTime } from '../alerts/vital-rules';
+import { AlertCandidate, AlertService } from './alert.service';
+import { AuthService } from './auth.service';
+import { DeviceInfoApiData, DeviceService, DeviceWithLocation, StrapState } from './device.service';
+import { LivePositionService } from './live-position.service';
+
+const STRAP_RULE_ID = 'strap-removed';
+
+interface StrapReading {
+  state: StrapState;
+  at: number; // Time of the reading that set the state, epoch milliseconds
+}
+
+/**
+ * Watches the strap sensor of every dashboard device and raises a critical
+ * alert when a strap that was on is reported removed. Only transitions count:
+ * a device first seen with its strap already off is not alerted, and a strap
+ * put back on marks the open alert as back in range. Readings come from the
+ * dashboard positions and from `getTargetInfo` records; one older than the
+ * last transition is ignored. The last state per device is kept in local
+ * storage per account, so a strap taken off while the dashboard was closed is
+ * still alerted when it is opened again.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StrapMonitorService {
+  private readonly storageKeyPrefix = 'traxbean_strap_states';
+
+  private subscription: Subscription | null = null;
+  private accountId: string | null = null;
+  private lastStates: Record<string, StrapReading> = {};
+
+  constructor(
+    private livePositionService: LivePositionService,
+    private deviceService: DeviceService,
+    private alertService: AlertService,
+    private authService: AuthService
+  ) {
+    this.authService.activeAccountId$.pipe(distinctUntilChanged()).subscribe(accountId => {
+      this.accountId = accountId;
+      this.lastStates = accountId ? this.readStored(accountId) : {};
+    });
+
+    this.authService.accounts$.subscribe(accounts => {
+      this.retainAccounts(accounts.map(account => account.accountId));
+    });
+  }
+
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    this.subscription = this.livePositionService.devices$.subscribe(devices => {
+      const changed = devices.filter(device =>
+        this.observe(device, device.strap, device.reportedAt?.getTime() ?? device.location?.timestamp.getTime()));
+      if (changed.length > 0) {
+        this.persist();
+      }
+    });
+  }
+
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Evaluate the strap reading of a record fetched elsewhere, e.g. by the
+   * device detail panel or the vitals monitor
+   */
+  evaluate(device: DeviceWithLocation, info: DeviceInfoApiData): void {
+    if (this.observe(device, info.strap, vitalReadingTime(info) ?? undefined)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Returns whether the stored state of the device changed
+   */
+  private observe(device: DeviceWithLocation, strap: number | null | undefined, readingAt: number | undefined): boolean {
+    const state = this.deviceService.getStrapState(strap);
+    if (state === 'unknown') {
+      return false;
+    }
+
+    const at = readingAt !== undefined && isFinite(readingAt) ? readingAt : Date.now();
+    const previous = this.lastStates[device.id];
+    if (previous && (previous.state === state || at <= previous.at)) {
+      return false;
+    }
+    this.lastStates[device.id] = { state, at };
+
+    const alertDevice = { id: device.id, name: device.name };
+    if (previous?.state === 'on' && state === 'removed') {
+      this.alertService.report(alertDevice, [this.removalAlert(device)], [STRAP_RULE_ID]);
+    } else if (previous?.state === 'removed' && state === 'on') {
+      this.alertService.report(alertDevice, [], [STRAP_RULE_ID]);
+    }
+    return true;
+  }
+
+  private removalAlert(device: DeviceWithLocation): AlertCandidate {
+    const location = device.location;
+    const position = location
+      ? `last known location ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`
+      : 'no known location';
+
+    return {
+      ruleId: STRAP_RULE_ID,
+      category: 'strap',
+      severity: 'critical',
+      title: 'Strap removed',
+      message: `The strap was opened or taken off; ${position}`,
+      location: location
+        ? { latitude: location.latitude, longitude: location.longitude, timestamp: location.timestamp.getTime() }
+        : undefined
+    };
+  }
+
+  private persist(): void {
+    if (!this.accountId) {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.storageKey(this.accountId), JSON.stringify(this.lastStates));
+    } catch (error) {
+      console.warn('Failed to persist strap states:', error);
+    }
+  }
+
+  private retainAccounts(accountIds: string[]): void {
+    const retained = new Set(accountIds.map(accountId => this.storageKey(accountId)));
+
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(`${this.storageKeyPrefix}:`) && !retained.has(key))
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  private storageKey(accountId: string): string {
+    return `${this.storageKeyPrefix}:${accountId}`;
+  }
+
+  private readStored(accountId: string): Record<string, StrapReading> {
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey(accountId)) ?? '{}') ?? {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { Inject, Injectable, NgZone, OnDestroy } from '@angular/core';
+import { Subscription, fromEvent, interval } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { TELEMETRY_SINK, TelemetryEvent, TelemetryEventType, TelemetrySink } from '../telemetry/telemetry-sinks';
+import { UserService } from './user.service';
+import { ApiError } from './error-handler.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class TelemetryService implements OnDestroy {
+  private readonly config = environment.telemetry;
+  private readonly sessionId = this.createSessionId();
+
+  private buffer: TelemetryEvent[] = [];
+  private isFlushing = false;
+  private subscriptions = new Subscription();
+  // Errors already recorded; a failed request is seen by the HTTP interceptor and again by whoever handles it
+  private reportedErrors = new WeakSet<object>();
+
+  constructor(
+    @Inject(TELEMETRY_SINK) private sink: TelemetrySink,
+    private userService: UserService,
+    private ngZone: NgZone
+  ) {
+    // Timers and listeners run outside the Angular zone so they never trigger change detection
+    this.ngZone.runOutsideAngular(() => {
+      this.subscriptions.add(
+        interval(this.config.flushIntervalSeconds * 1000).subscribe(() => this.flush())
+      );
+      this.subscriptions.add(
+        fromEvent(document, 'visibilitychange').pipe(
+          filter(() => document.visibilityState === 'hidden')
+        ).subscribe(() => this.flushOnHide())
+      );
+    });
+  }
+
+  /**
+   * Record a failure. ApiErrors keep their code and status; anything else
+   * is reduced to its name and message. An error object is only recorded
+   * once, so a failed request is not counted again by its subscriber or the
+   * global error handler.
+   */
+  trackError(error: unknown, context: Record<string, unknown> = {}): void {
+    if (typeof error === 'object' && error !== null) {
+      if (this.reportedErrors.has(error)) {
+        return;
+      }
+      this.reportedErrors.add(error);
+    }
+
+    if (error instanceof ApiError) {
+      // Query strings can carry identifiers or tokens; HTTP failure messages repeat the full URL
+      const url = error.url ? this.stripQuery(error.url) : null;
+      this.record('error', error.code, {
+        ...context,
+        message: error.url && url !== null ? error.message.split(error.url).join(url) : error.message,
+        status: error.status,
+        url,
+        retryable: error.retryable
+      });
+      return;
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.record('error', err.name || 'Error', {
+      ...context,
+      message: err.message,
+      stack: err.stack?.split('\n').slice(0, 5).join('\n')
+    });
+  }
+
+  trackSlowRequest(method: string, url: string, durationMs: number, status?: number): void {
+    this.record('slow-request', `${method} ${this.stripQuery(url)}`, { durationMs: Math.round(durationMs), status });
+  }
+
+  /**
+   * Record a key user action, e.g. `device_selected` or `export`
+   */
+  trackAction(name: string, data?: Record<string, unknown>): void {
+    this.record('action', name, data);
+  }
+
+  /**
+   * Send buffered events to the sink. Failed batches are put back so they can
+   * go out with the next flush, within the buffer limit.
+   */
+  flush(): void {
+    if (this.isFlushing || this.buffer.length === 0) {
+      return;
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+    this.isFlushing = true;
+
+    this.sink.send(batch).subscribe({
+      complete: () => this.isFlushing = false,
+      error: () => {
+        this.isFlushing = false;
+        this.buffer = [...batch, ...this.buffer].slice(-this.config.maxBufferSize);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.flush();
+    this.subscriptions.unsubscribe();
+  }
+
+  /**
+   * The page may be about to close: beacon the buffer when the sink can, as
+   * a regular request could be cancelled with the page
+   */
+  private flushOnHide(): void {
+    if (this.buffer.length > 0 && this.sink.beacon?.(this.buffer)) {
+      this.buffer = [];
+      return;
+    }
+    this.flush();
+  }
+
+  private record(type: TelemetryEventType, name: string, data?: Record<string, unknown>): void {
+    this.buffer.push({
+      type,
+      name,
+      timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
+      userId: this.userService.getUserId(),
+      route: window.location.pathname,
+      data
+    });
+
+    if (this.buffer.length >= this.config.maxBufferSize) {
+      this.flush();
+    }
+  }
+
+  private stripQuery(url: string): string {
+    return url.split('?')[0];
+  }
+
+  private createSessionId(): string {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  }
+}
@@ -1,20 +1,9 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject } from 'rxjs';
+import { UserContext } from '../api/traxbean-api.models';
 
-export interface UserContext {
-  id: number;
-  departmentId: number;
-  userType: number;
-  name: string;
-  username: string;
-  nickName: string;
-  headImg: string;
-  email: string;
-  phone: string;
-  status: number;
-  createdAt?: string;
-  updatedAt?: string;
-}
+// Re-exported for existing imports; the definition lives with the API client
+export type { UserContext } from '../api/traxbean-api.models';
 
 @Injectable({
   providedIn: 'root'
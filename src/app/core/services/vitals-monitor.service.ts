@@ -0,0 +1,127 @@
+import { Injectable } from '@angular/core';
+import {
+  EMPTY,
+  Observable,
+  Subscription,
+  catchError,
+  concat,
+  defer,
+  distinctUntilChanged,
+  from,
+  map,
+  mergeMap,
+  of,
+  switchMap,
+  tap,
+  throwError,
+  toArray
+} from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { evaluateVitalRules, vitalReadingTime } from '../alerts/vital-rules';
+import { AdaptivePoller } from '../polling/adaptive-poller';
+import { AlertService } from './alert.service';
+import { DeviceInfoApiData, DeviceService, DeviceWithLocation } from './device.service';
+import { LivePositionService } from './live-position.service';
+import { StrapMonitorService } from './strap-monitor.service';
+
+// Parallel getTargetInfo calls per round
+const CONCURRENT_REQUESTS = 3;
+
+/**
+ * Fetches vitals for every wearable on the dashboard and feeds them to the
+ * vital rules, on `alerts.vitalsRefreshSeconds` while started.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VitalsMonitorService {
+  private subscription: Subscription | null = null;
+  // Time of the newest reading evaluated per device
+  private lastReadingAt = new Map<string, number>();
+
+  constructor(
+    private livePositionService: LivePositionService,
+    private deviceService: DeviceService,
+    private alertService: AlertService,
+    private strapMonitor: StrapMonitorService
+  ) {}
+
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    this.subscription = this.livePositionService.devices$.pipe(
+      map(devices => devices.filter(device => this.isWearable(device))),
+      // Position updates replace the list constantly; only a different set of wearables restarts the cycle
+      distinctUntilChanged((previous, next) =>
+        previous.length === next.length && previous.every((device, index) => device.id === next[index].id)
+      ),
+      switchMap(wearables => wearables.length > 0 ? this.monitor(wearables) : EMPTY)
+    ).subscribe();
+  }
+
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+  }
+
+  /**
+   * Evaluate a record fetched elsewhere, e.g. by the device detail panel.
+   * A record whose reading is not newer than the last one evaluated for the
+   * device is skipped: the watch has not measured anything since. The
+   * record's strap reading is passed on to the strap monitor.
+   */
+  evaluate(device: DeviceWithLocation, info: DeviceInfoApiData): void {
+    if (!this.isWearable(device)) {
+      return;
+    }
+
+    const readingAt = vitalReadingTime(info);
+    if (readingAt !== null) {
+      if (readingAt <= (this.lastReadingAt.get(device.id) ?? 0)) {
+        return;
+      }
+      this.lastReadingAt.set(device.id, readingAt);
+    }
+
+    this.strapMonitor.evaluate(device, info);
+
+    const { candidates, checkedRuleIds } = evaluateVitalRules(info);
+    this.alertService.report({ id: device.id, name: device.name }, candidates, checkedRuleIds);
+  }
+
+  private monitor(wearables: DeviceWithLocation[]): Observable<unknown> {
+    return defer(() => {
+      const poller = new AdaptivePoller(() => this.checkAll(wearables), {
+        intervalMs: environment.alerts.vitalsRefreshSeconds * 1000,
+        maxIntervalMs: environment.livePositions.maxPollIntervalSeconds * 1000
+      });
+
+      return concat(this.checkAll(wearables).pipe(catchError(() => EMPTY)), poller.run());
+    });
+  }
+
+  /**
+   * One round over all wearables. Individual failures are skipped; the round
+   * only fails (and so backs off) when no device could be read at all.
+   */
+  private checkAll(wearables: DeviceWithLocation[]): Observable<number> {
+    return from(wearables).pipe(
+      mergeMap(device => this.deviceService.getDeviceInfo(device.id).pipe(
+        tap(info => this.evaluate(device, info)),
+        map(() => true),
+        catchError(() => of(false))
+      ), CONCURRENT_REQUESTS),
+      toArray(),
+      switchMap(results => {
+        const succeeded = results.filter(Boolean).length;
+        return succeeded === 0 ? throwError(() => new Error('No wearable vitals could be loaded')) : of(succeeded);
+      })
+    );
+  }
+
+  private isWearable(device: DeviceWithLocation): boolean {
+    return device.type === 'Wearable';
+  }
+}
@@ -0,0 +1,90 @@
+import { InjectionToken, inject } from '@angular/core';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+
+export type TelemetryEventType = 'error' | 'slow-request' | 'action';
+
+export interface TelemetryEvent {
+  type: TelemetryEventType;
+  name: string;
+  timestamp: string;
+  sessionId: string;
+  userId: string | null;
+  route: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Destination for batches of telemetry events
+ */
+export interface TelemetrySink {
+  send(events: TelemetryEvent[]): Observable<void>;
+  /**
+   * Hand a batch to the browser to deliver even if the page is being closed.
+   * Returns false when the batch was not queued; sinks without a network
+   * destination need not implement it.
+   */
+  beacon?(events: TelemetryEvent[]): boolean;
+}
+
+/**
+ * Discards everything; used in tests and wherever telemetry is switched off
+ */
+export class NoopTelemetrySink implements TelemetrySink {
+  send(): Observable<void> {
+    return of(undefined);
+  }
+}
+
+/**
+ * Prints batches to the browser console for local development
+ */
+export class ConsoleTelemetrySink implements TelemetrySink {
+  send(events: TelemetryEvent[]): Observable<void> {
+    console.groupCollapsed(`[telemetry] ${events.length} event(s)`);
+    events.forEach(event => console.info(event.type, event.name, event.data ?? {}));
+    console.groupEnd();
+    return of(undefined);
+  }
+}
+
+/**
+ * Posts batches to a collector endpoint.
+ * Uses HttpBackend directly so telemetry traffic skips the app interceptors
+ * (no auth header, no error toasts, and no telemetry about telemetry).
+ */
+export class HttpTelemetrySink implements TelemetrySink {
+  private readonly http: HttpClient;
+
+  constructor(httpBackend: HttpBackend, private endpoint: string) {
+    this.http = new HttpClient(httpBackend);
+  }
+
+  send(events: TelemetryEvent[]): Observable<void> {
+    return this.http.post(this.endpoint, { events }).pipe(map(() => undefined));
+  }
+
+  /**
+   * The same JSON body, sent as text/plain so the beacon needs no CORS preflight
+   */
+  beacon(events: TelemetryEvent[]): boolean {
+    return typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(this.endpoint, JSON.stringify({ events }));
+  }
+}
+
+export const TELEMETRY_SINK = new InjectionToken<TelemetrySink>('TELEMETRY_SINK', {
+  providedIn: 'root',
+  factory: () => {
+    const { sink, endpoint } = environment.telemetry;
+
+    if (sink === 'http' && endpoint) {
+      return new HttpTelemetrySink(inject(HttpBackend), endpoint);
+    }
+    if (sink === 'console') {
+      return new ConsoleTelemetrySink();
+    }
+    return new NoopTelemetrySink();
+  }
+});
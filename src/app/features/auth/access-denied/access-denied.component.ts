@@ -0,0 +1,147 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { ButtonModule } from 'primeng/button';
+import { CardModule } from 'primeng/card';
+import { AuthService } from '../../../core/services/auth.service';
+import { PermissionService } from '../../../core/services/permission.service';
+
+@Component({
+  selector: 'app-access-denied',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ButtonModule,
+    CardModule
+  ],
+  template: `
+    <div class="access-denied-container">
+      <p-card class="access-denied-card">
+        <div class="access-denied-content">
+          <i class="pi pi-ban access-denied-icon"></i>
+          <h1>Access Denied</h1>
+          <p>
+            Your account does not have permission to open
+            <strong *ngIf="requestedUrl; else thisPage">{{ requestedUrl }}</strong>
+            <ng-template #thisPage>this page</ng-template>.
+          </p>
+          <p *ngIf="requiredPermissions.length" class="required-permissions">
+            Required: <code *ngFor="let permission of requiredPermissions">{{ permission }}</code>
+          </p>
+          <p *ngIf="awaitingApproval; else contactAdmin" class="hint">
+            Your account is not assigned to a department yet, so it can only view devices.
+            Ask your administrator to assign one.
+          </p>
+          <ng-template #contactAdmin>
+            <p class="hint">Contact your administrator if you believe this is a mistake.</p>
+          </ng-template>
+
+          <div class="actions">
+            <p-button
+              label="Back to Dashboard"
+              icon="pi pi-home"
+              (click)="goToDashboard()">
+            </p-button>
+            <p-button
+              label="Sign in as another user"
+              icon="pi pi-sign-out"
+              severity="secondary"
+              [text]="true"
+              (click)="signOut()">
+            </p-button>
+          </div>
+        </div>
+      </p-card>
+    </div>
+  `,
+  styles: [`
+    .access-denied-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      background: #f8fafc;
+      padding: 1rem;
+    }
+
+    .access-denied-card {
+      width: 100%;
+      max-width: 480px;
+    }
+
+    .access-denied-content {
+      text-align: center;
+    }
+
+    .access-denied-icon {
+      font-size: 3rem;
+      color: #ef4444;
+    }
+
+    h1 {
+      margin: 1rem 0 0.5rem 0;
+      font-size: 1.6rem;
+      font-weight: 600;
+      color: #1f2937;
+    }
+
+    p {
+      color: #4b5563;
+    }
+
+    .required-permissions code {
+      margin: 0 0.25rem;
+      padding: 0.1rem 0.4rem;
+      border-radius: 4px;
+      background: #f3f4f6;
+      font-size: 0.85rem;
+    }
+
+    .hint {
+      font-size: 0.9rem;
+      color: #6b7280;
+    }
+
+    .actions {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+      margin-top: 1.5rem;
+    }
+  `]
+})
+export class AccessDeniedComponent implements OnInit {
+  requestedUrl = '';
+  requiredPermissions: string[] = [];
+  awaitingApproval = false;
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private authService: AuthService,
+    private permissionService: PermissionService
+  ) {}
+
+  ngOnInit(): void {
+    const params = this.route.snapshot.queryParamMap;
+    this.requestedUrl = params.get('from') || '';
+    this.requiredPermissions = (params.get('required') || '').split(',').filter(Boolean);
+    this.awaitingApproval = this.permissionService.isAwaitingApproval();
+  }
+
+  goToDashboard(): void {
+    this.router.navigate(['/dashboard']);
+  }
+
+  /**
+   * Sign out of the active account only; another signed-in account takes
+   * over and gets to try the requested page
+   */
+  signOut(): void {
+    if (this.authService.signOutAccount()) {
+      this.router.navigateByUrl(this.requestedUrl || '/dashboard');
+      return;
+    }
+    this.router.navigate(['/login']);
+  }
+}
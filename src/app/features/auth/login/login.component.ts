@@ -1,86 +1,127 @@
-import { Component } from '@angular/core';
+import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FormsModule } from '@angular/forms';
-import { Router } from '@angular/router';
+import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
+import { PasswordModule } from 'primeng/password';
+import { DropdownModule } from 'primeng/dropdown';
+import { CheckboxModule } from 'primeng/checkbox';
 import { CardModule } from 'primeng/card';
 import { MessageModule } from 'primeng/message';
-import { AuthService, LoginRequest, LoginCredentials } from '../../../core/services/auth.service';
+import { Subscription, of, timer } from 'rxjs';
+import { map, switchMap, takeWhile } from 'rxjs/operators';
+import { AuthService, AuthenticationError, LoginCredentials } from '../../../core/services/auth.service';
+import { ADD_ACCOUNT_PARAM, RETURN_URL_PARAM } from '../../../core/guards/auth.guard';
+import { environment } from '../../../../environments/environment';
+
+// Only the username and client ID are remembered, never the password
+interface RememberedLogin {
+  username: string;
+  clientId: string;
+}
 
 @Component({
   selector: 'app-login',
   standalone: true,
   imports: [
     CommonModule,
-    FormsModule,
+    ReactiveFormsModule,
     ButtonModule,
     InputTextModule,
+    PasswordModule,
+    DropdownModule,
+    CheckboxModule,
     CardModule,
     MessageModule
   ],
   template: `
     <div class="login-container">
-      <p-card header="Syscodeia Tracking Login" class="login-card">
-        <form (ngSubmit)="onLogin()" #loginForm="ngForm">
+      <p-card [header]="isAddingAccount ? 'Add Another Account' : 'Syscodeia Tracking Login'" class="login-card">
+        <form [formGroup]="loginForm" (ngSubmit)="onLogin()">
           <div class="field">
             <label for="username">Username</label>
             <input 
-              disabled  
               type="text" 
               id="username"
               pInputText 
-              [(ngModel)]="credentials.username" 
-              name="username"
-              required
+              formControlName="username"
+              autocomplete="username"
               class="w-full"
               placeholder="Enter username"
             />
+            <small class="field-error" *ngIf="isInvalid('username')">Username is required.</small>
           </div>
           
           <div class="field">
             <label for="password">Password</label>
-            <input 
-              disabled
-              type="password" 
-              id="password"
-              pInputText 
-              [(ngModel)]="credentials.password" 
-              name="password"
-              required
-              class="w-full"
-              placeholder="Enter password"
-            />
+            <p-password
+              inputId="password"
+              formControlName="password"
+              [feedback]="false"
+              [toggleMask]="true"
+              autocomplete="current-password"
+              styleClass="w-full"
+              [inputStyle]="{ width: '100%' }"
+              placeholder="Enter password">
+            </p-password>
+            <small class="field-error" *ngIf="isInvalid('password')">Password is required.</small>
           </div>
 
           <div class="field">
             <label for="clientId">Client ID</label>
-            <input 
-              disabled
-              type="text" 
-              id="clientId"
-              pInputText 
-              [(ngModel)]="credentials.clientId" 
-              name="clientId"
-              class="w-full"
-              placeholder="Enter client ID"
-            />
+            <p-dropdown
+              inputId="clientId"
+              formControlName="clientId"
+              [options]="clientIdOptions"
+              [editable]="true"
+              styleClass="w-full"
+              placeholder="Enter client ID">
+            </p-dropdown>
+            <small class="field-error" *ngIf="isInvalid('clientId')">Client ID is required.</small>
+          </div>
+
+          <div class="field remember-field" *ngIf="!isAddingAccount">
+            <p-checkbox
+              inputId="rememberUsername"
+              formControlName="rememberUsername"
+              [binary]="true">
+            </p-checkbox>
+            <label for="rememberUsername">Remember username</label>
           </div>
 
           <p-message 
             *ngIf="errorMessage" 
-            severity="error" 
+            [severity]="errorSeverity" 
             [text]="errorMessage"
             class="w-full mb-3">
           </p-message>
 
+          <p-message
+            *ngIf="lockoutSeconds > 0"
+            severity="warn"
+            [text]="(lockedByServer ? 'The service asked to wait before the next attempt.' : 'Too many failed attempts.') +
+              ' You can try again in ' + lockoutSeconds + 's.'"
+            class="w-full mb-3">
+          </p-message>
+
           <p-button 
             type="submit"
-            label="Login"
+            [label]="lockoutSeconds > 0 ? 'Try again in ' + lockoutSeconds + 's' : 'Login'"
             [loading]="isLoading"
-            [disabled]="!loginForm.form.valid"
+            [disabled]="loginForm.invalid || lockoutSeconds > 0"
             class="w-full">
           </p-button>
+
+          <p-button
+            *ngIf="isAddingAccount"
+            type="button"
+            label="Cancel"
+            severity="secondary"
+            [text]="true"
+            (click)="cancelAddAccount()"
+            class="w-full mt-2">
+          </p-button>
         </form>
       </p-card>
     </div>
@@ -111,6 +152,28 @@ import { AuthService, LoginRequest, LoginCredentials } from '../../../core/servi
       color: #374151;
     }
 
+    .field-error {
+      display: block;
+      margin-top: 0.25rem;
+      color: #ef4444;
+    }
+
+    .remember-field {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .remember-field label {
+      margin-bottom: 0;
+      font-weight: 400;
+    }
+
+    :host ::ng-deep .p-password,
+    :host ::ng-deep .p-dropdown {
+      width: 100%;
+    }
+
     :host ::ng-deep .p-card-body {
       padding: 2rem;
     }
@@ -123,39 +186,148 @@ import { AuthService, LoginRequest, LoginCredentials } from '../../../core/servi
     }
   `]
 })
-export class LoginComponent {
-  credentials: LoginRequest = {
-    username: 'Syscodeia',
-    password: '123456',
-    clientId: 'syscodeia-tracking'
-  };
+export class LoginComponent implements OnInit, OnDestroy {
+  private readonly rememberedLoginKey = 'traxbean_remembered_login';
+
+  readonly clientIdOptions = environment.login.clientIds;
+
+  readonly loginForm = new FormGroup({
+    username: new FormControl('', { nonNullable: true, validators: [Validators.required, Validators.maxLength(100)] }),
+    password: new FormControl('', { nonNullable: true, validators: Validators.required }),
+    clientId: new FormControl(environment.login.clientIds[0] ?? '', {
+      nonNullable: true,
+      validators: [Validators.required, Validators.maxLength(100)]
+    }),
+    rememberUsername: new FormControl(false, { nonNullable: true })
+  });
 
   isLoading = false;
   errorMessage = '';
+  errorSeverity: 'error' | 'warn' = 'error';
+  lockoutSeconds = 0;
+  lockedByServer = false; // The lockout is the server's Retry-After, not failed attempts
+  isAddingAccount = false;
+  private returnUrl = '/dashboard';
+  private lockoutSubscription?: Subscription;
 
   constructor(
     private authService: AuthService,
-    private router: Router
+    private router: Router,
+    private route: ActivatedRoute
   ) {}
 
+  ngOnInit(): void {
+    const params = this.route.snapshot.queryParamMap;
+    this.returnUrl = this.sanitizeReturnUrl(params.get(RETURN_URL_PARAM));
+
+    // Signing in to an additional account keeps the existing sessions
+    this.isAddingAccount = params.get(ADD_ACCOUNT_PARAM) === 'true' && this.authService.isAuthenticated();
+    const remembered = this.readRememberedLogin();
+    if (remembered && !this.isAddingAccount) {
+      this.loginForm.patchValue({ ...remembered, rememberUsername: true });
+    }
+
+    // Count down any login lockout, including one restored after a page reload
+    this.lockoutSubscription = this.authService.loginLockedUntil$.pipe(
+      switchMap(lockedUntil => {
+        if (!lockedUntil) {
+          return of(0);
+        }
+        return timer(0, 1000).pipe(
+          map(() => this.authService.getLoginLockoutSeconds()),
+          takeWhile(seconds => seconds > 0, true)
+        );
+      })
+    ).subscribe(seconds => this.lockoutSeconds = seconds);
+  }
+
+  ngOnDestroy(): void {
+    this.lockoutSubscription?.unsubscribe();
+  }
+
+  cancelAddAccount(): void {
+    this.router.navigateByUrl(this.returnUrl);
+  }
+
   onLogin(): void {
-    if (!this.credentials.username || !this.credentials.password) {
+    if (this.loginForm.invalid || this.lockoutSeconds > 0) {
+      this.loginForm.markAllAsTouched();
       return;
     }
 
     this.isLoading = true;
     this.errorMessage = '';
 
+    const { username, password, clientId, rememberUsername } = this.loginForm.getRawValue();
+    const credentials: LoginCredentials = {
+      username: username.trim(),
+      password,
+      clientId: clientId.trim()
+    };
+
     // Use the new authenticate method for better error handling
-    this.authService.authenticate(this.credentials as LoginCredentials).subscribe({
+    this.authService.authenticate(credentials).subscribe({
       next: (user) => {
         this.isLoading = false;
-        this.router.navigate(['/dashboard']);
+        // The remembered login belongs to the device's primary sign-in; adding an account leaves it alone
+        if (!this.isAddingAccount) {
+          this.rememberLogin(rememberUsername ? { username: credentials.username, clientId: credentials.clientId! } : null);
+        }
+        this.router.navigateByUrl(this.returnUrl);
       },
       error: (error) => {
         this.isLoading = false;
-        this.errorMessage = error.message || 'Login failed. Please check your credentials and try again.';
+        this.showLoginError(error);
       }
     });
   }
-} 
\ No newline at end of file
+
+  isInvalid(controlName: 'username' | 'password' | 'clientId'): boolean {
+    const control = this.loginForm.controls[controlName];
+    return control.invalid && (control.touched || control.dirty);
+  }
+
+  private rememberLogin(login: RememberedLogin | null): void {
+    if (login) {
+      localStorage.setItem(this.rememberedLoginKey, JSON.stringify(login));
+    } else {
+      localStorage.removeItem(this.rememberedLoginKey);
+    }
+  }
+
+  private readRememberedLogin(): RememberedLogin | null {
+    try {
+      const stored = localStorage.getItem(this.rememberedLoginKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private showLoginError(error: AuthenticationError | Error): void {
+    const code = error instanceof AuthenticationError ? error.code : 'UNKNOWN';
+
+    // Connectivity problems and outages are not the user's fault
+    this.errorSeverity = code === 'NETWORK_ERROR' || code === 'SERVER_ERROR' ? 'warn' : 'error';
+    this.lockedByServer = code !== 'INVALID_CREDENTIALS' && code !== 'RATE_LIMITED';
+
+    switch (code) {
+      case 'RATE_LIMITED':
+        // The lockout countdown explains what happened
+        this.errorMessage = this.authService.getLoginLockoutSeconds() > 0 ? '' : error.message;
+        break;
+      default:
+        this.errorMessage = error.message || 'Login failed. Please check your credentials and try again.';
+    }
+  }
+
+  /**
+   * Only allow in-app paths so the login page can't be used as an open redirect
+   */
+  private sanitizeReturnUrl(url: string | null): string {
+    if (!url || !url.startsWith('/') || url.startsWith('//') || url.startsWith('/login')) {
+      return '/dashboard';
+    }
+    return url;
+  }
+}
\ No newline at end of file
@@ -16,8 +16,9 @@ import { ButtonModule } from 'primeng/button';
 import { DropdownModule } from 'primeng/dropdown';
 import { SkeletonModule } from 'primeng/skeleton';
 import { TooltipModule } from 'primeng/tooltip';
-import { Subject, takeUntil, debounceTime, distinctUntilChanged } from 'rxjs';
+import { Subject, takeUntil, debounceTime, distinctUntilChanged, skip } from 'rxjs';
 import { LocationHistoryService } from '../../services/location-history.service';
+import { AuthService } from '../../../../core/services/auth.service';
 import { DeviceInfo, CalendarDay } from '../../models/location-history.interface';
 
 /**
@@ -176,6 +177,7 @@ import { DeviceInfo, CalendarDay } from '../../models/location-history.interface
 export class CalendarSelectorComponent implements OnInit, OnDestroy {
   private readonly destroy$ = new Subject<void>();
   private readonly locationService = inject(LocationHistoryService);
+  private readonly authService = inject(AuthService);
 
   // Input/Output signals (Angular 19)
   readonly initialDevice = input<number | null>(null);
@@ -188,7 +190,6 @@ export class CalendarSelectorComponent implements OnInit, OnDestroy {
   private readonly _selectedDeviceId = signal<number | null>(null);
   private readonly _availableDates = signal<Set<number>>(new Set());
   private readonly _calendarLoading = signal(false);
-  private readonly _devicesLoading = signal(false);
   private readonly _navigationLoading = signal(false);
 
   // Service state signals
@@ -201,7 +202,7 @@ export class CalendarSelectorComponent implements OnInit, OnDestroy {
   readonly selectedDeviceId = computed(() => this._selectedDeviceId());
   readonly availableDates = computed(() => this._availableDates());
   readonly calendarLoading = computed(() => this._calendarLoading());
-  readonly devicesLoading = computed(() => this._devicesLoading());
+  readonly devicesLoading = this.locationService.devicesLoading;
   readonly navigationLoading = computed(() => this._navigationLoading());
 
   readonly currentMonthDisplay = computed(() => {
@@ -369,6 +370,16 @@ export class CalendarSelectorComponent implements OnInit, OnDestroy {
     // Set initial month to current month
     const now = new Date();
     this._currentMonth.set(new Date(now.getFullYear(), now.getMonth(), 1));
+
+    // Device ids are per account, so a switch invalidates the selection
+    this.authService.activeAccountId$.pipe(
+      distinctUntilChanged(),
+      skip(1),
+      takeUntil(this.destroy$)
+    ).subscribe(() => {
+      this._selectedDeviceId.set(null);
+      this._availableDates.set(new Set());
+    });
   }
 
   private loadAvailableDates(deviceId: number, month: Date): void {
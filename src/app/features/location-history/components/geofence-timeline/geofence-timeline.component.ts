@@ -0,0 +1,226 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ButtonModule } from 'primeng/button';
+import { GeofenceHistoryEvent, GeofenceVisit } from '../../../../core/geofences/geofence-analysis';
+import { GeofenceHistoryService } from '../../services/geofence-history.service';
+
+interface TimelineRow {
+  event: GeofenceHistoryEvent;
+  visit: GeofenceVisit | null;
+}
+
+/**
+ * Geofence Timeline Component
+ * Lists the geofence entries and exits of the loaded day with the time spent
+ * inside each geofence; selecting an entry highlights its visit on the map
+ */
+@Component({
+  selector: 'app-geofence-timeline',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ButtonModule
+  ],
+  template: `
+    <div class="geofence-timeline">
+      <div class="timeline-header">
+        <h3 class="text-lg font-semibold text-gray-800 m-0">Geofences</h3>
+        <button
+          pButton
+          type="button"
+          icon="pi pi-times"
+          class="p-button-text p-button-sm"
+          *ngIf="selectedVisit()"
+          (click)="clearSelection()"
+          title="Clear highlight">
+        </button>
+      </div>
+
+      <p class="empty-message" *ngIf="geofences().length === 0">
+        No geofences defined. Draw them on the dashboard map.
+      </p>
+      <p class="empty-message" *ngIf="geofences().length > 0 && rows().length === 0">
+        The device did not enter any geofence on this day.
+      </p>
+
+      <!-- Time inside each geofence -->
+      <div class="totals" *ngIf="totals().length > 0">
+        <div class="total-item" *ngFor="let total of totals()">
+          <span class="swatch" [style.background]="total.geofence.color"></span>
+          <span class="total-name">{{ total.geofence.name }}</span>
+          <span class="total-value">
+            {{ formatDuration(total.durationMs) }}
+            <span class="text-gray-500">· {{ total.visits }} {{ total.visits === 1 ? 'visit' : 'visits' }}</span>
+          </span>
+        </div>
+      </div>
+
+      <!-- Entries and exits -->
+      <ol class="timeline" *ngIf="rows().length > 0">
+        <li
+          *ngFor="let row of rows()"
+          class="timeline-item"
+          [class.selected]="row.visit && row.visit.id === selectedVisit()?.id"
+          (click)="select(row)">
+          <span class="marker" [style.border-color]="row.event.geofence.color"
+                [style.background]="row.event.type === 'enter' ? row.event.geofence.color : 'white'"></span>
+          <div class="item-content">
+            <div class="item-title">
+              {{ row.event.type === 'enter' ? 'Entered' : 'Left' }} {{ row.event.geofence.name }}
+            </div>
+            <div class="item-meta">
+              {{ formatTime(row.event.timestamp) }}
+              <span *ngIf="row.event.type === 'enter' && row.visit?.startedInside">· already inside at start of data</span>
+              <span *ngIf="row.event.type === 'exit' && row.visit">· {{ formatDuration(row.visit.durationMs) }} inside</span>
+              <span *ngIf="row.event.type === 'enter' && row.visit && row.visit.exitedAt === null">· still inside at end of data</span>
+            </div>
+          </div>
+        </li>
+      </ol>
+    </div>
+  `,
+  styles: [`
+    .geofence-timeline {
+      background: white;
+      border-radius: 8px;
+      padding: 1rem;
+      box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+    }
+
+    .timeline-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      border-bottom: 1px solid #e5e7eb;
+      padding-bottom: 0.75rem;
+      margin-bottom: 0.75rem;
+    }
+
+    .empty-message {
+      color: #6b7280;
+      font-size: 0.875rem;
+      margin: 0;
+    }
+
+    .totals {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+      margin-bottom: 1rem;
+    }
+
+    .total-item {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      font-size: 0.875rem;
+    }
+
+    .total-name {
+      flex: 1;
+      font-weight: 600;
+      color: #1e293b;
+    }
+
+    .total-value {
+      color: #334155;
+    }
+
+    .swatch {
+      width: 0.75rem;
+      height: 0.75rem;
+      border-radius: 2px;
+      flex-shrink: 0;
+    }
+
+    .timeline {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      max-height: 480px;
+      overflow-y: auto;
+      border-left: 2px solid #e5e7eb;
+      margin-left: 0.4rem;
+    }
+
+    .timeline-item {
+      position: relative;
+      display: flex;
+      gap: 0.75rem;
+      padding: 0.5rem 0.5rem 0.5rem 1rem;
+      cursor: pointer;
+      border-radius: 6px;
+    }
+
+    .timeline-item:hover {
+      background: #f8fafc;
+    }
+
+    .timeline-item.selected {
+      background: #eff6ff;
+    }
+
+    .marker {
+      position: absolute;
+      left: -0.45rem;
+      top: 0.8rem;
+      width: 0.75rem;
+      height: 0.75rem;
+      border-radius: 50%;
+      border: 2px solid;
+    }
+
+    .item-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: #1e293b;
+    }
+
+    .item-meta {
+      font-size: 0.75rem;
+      color: #64748b;
+    }
+  `]
+})
+export class GeofenceTimelineComponent {
+  private readonly geofenceHistory = inject(GeofenceHistoryService);
+
+  readonly geofences = this.geofenceHistory.geofences;
+  readonly selectedVisit = this.geofenceHistory.selectedVisit;
+  readonly totals = computed(() => this.geofenceHistory.analysis().totals);
+
+  readonly rows = computed<TimelineRow[]>(() => {
+    const { events, visits } = this.geofenceHistory.analysis();
+    return events.map(event => ({
+      event,
+      visit: visits.find(visit => visit.geofence.id === event.geofence.id &&
+        (event.type === 'enter' ? visit.startIndex === event.index : visit.exitedAt !== null && visit.endIndex === event.index)) ?? null
+    }));
+  });
+
+  select(row: TimelineRow): void {
+    const visit = row.visit;
+    this.geofenceHistory.selectVisit(visit && visit.id !== this.selectedVisit()?.id ? visit : null);
+  }
+
+  clearSelection(): void {
+    this.geofenceHistory.selectVisit(null);
+  }
+
+  formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  }
+
+  formatDuration(milliseconds: number): string {
+    const hours = Math.floor(milliseconds / (1000 * 60 * 60));
+    const minutes = Math.floor((milliseconds % (1000 * 60 * 60)) / (1000 * 60));
+
+    if (hours > 0) {
+      return `${hours}h ${minutes}m`;
+    }
+    return `${minutes}m`;
+  }
+}
@@ -8,6 +8,7 @@ import {
   computed, 
   effect, 
   inject,
+  untracked,
   input,
   output
 } from '@angular/core';
@@ -17,8 +18,12 @@ import { ButtonModule } from 'primeng/button';
 import { ProgressSpinnerModule } from 'primeng/progressspinner';
 import { TooltipModule } from 'primeng/tooltip';
 import { TagModule } from 'primeng/tag';
+import { toSignal } from '@angular/core/rxjs-interop';
 import { Subject, takeUntil } from 'rxjs';
 import { LocationHistoryService } from '../../services/location-history.service';
+import { GeofenceService } from '../../../../core/services/geofence.service';
+import { GeofenceHistoryService } from '../../services/geofence-history.service';
+import { GeofenceOverlaysComponent } from '../../../../shared/components/geofence-overlays/geofence-overlays.component';
 import { 
   LocationPoint, 
   EnhancedLocationPoint } from '../../models/location-history.interface';
@@ -36,6 +41,10 @@ interface MapPolylineData {
   options: google.maps.PolylineOptions;
 }
 
+interface GeofenceSegmentData extends MapPolylineData {
+  visitId: string;
+}
+
 /**
  * History Map Component with Angular 19 Signals
  * Displays location data on Google Maps with markers, polylines, and interactive features
@@ -49,7 +58,8 @@ interface MapPolylineData {
     ButtonModule,
     ProgressSpinnerModule,
     TooltipModule,
-    TagModule
+    TagModule,
+    GeofenceOverlaysComponent
   ],
   template: `
     <div class="history-map-container">
@@ -106,6 +116,18 @@ interface MapPolylineData {
               tooltipPosition="top">
             </button>
             
+            <button 
+              pButton 
+              type="button" 
+              icon="pi pi-stop-circle"
+              class="p-button-outlined p-button-sm"
+              [class.p-button-secondary]="!showGeofences()"
+              (click)="toggleGeofences()"
+              [disabled]="geofences().length === 0"
+              [pTooltip]="showGeofences() ? 'Hide geofences' : 'Show geofences'"
+              tooltipPosition="top">
+            </button>
+            
             <button 
               pButton 
               type="button" 
@@ -134,12 +156,28 @@ interface MapPolylineData {
           (mapRightclick)="onMapRightClick($event)"
           *ngIf="!loading() && hasData(); else loadingTemplate">
           
+          <!-- Geofences -->
+          <app-geofence-overlays
+            *ngIf="showGeofences()"
+            [geofences]="geofences()"
+            [clickable]="false">
+          </app-geofence-overlays>
+
           <!-- Polyline for path -->
           <map-polyline
             *ngIf="showPolyline() && polylineData()"
             [path]="polylineData()?.path || []"
             [options]="polylineOptions">
           </map-polyline>
+
+          <!-- Path inside geofences -->
+          <ng-container *ngIf="showPolyline() && showGeofences()">
+            <map-polyline
+              *ngFor="let segment of geofenceSegments(); trackBy: trackBySegment"
+              [path]="segment.path"
+              [options]="segment.options">
+            </map-polyline>
+          </ng-container>
           
           <!-- Markers for location points -->
           <ng-container *ngIf="showMarkers()">
@@ -383,6 +421,8 @@ export class HistoryMapComponent implements OnInit, OnDestroy {
   
   private readonly destroy$ = new Subject<void>();
   private readonly locationService = inject(LocationHistoryService);
+  private readonly geofenceService = inject(GeofenceService);
+  private readonly geofenceHistory = inject(GeofenceHistoryService);
 
   // Input/Output signals
   readonly height = input('500px');
@@ -395,6 +435,7 @@ export class HistoryMapComponent implements OnInit, OnDestroy {
   private readonly _mapZoom = signal(10);
   private readonly _showPolyline = signal(true);
   private readonly _showMarkers = signal(true);
+  private readonly _showGeofences = signal(true);
   private readonly _selectedMarkerData = signal<MapMarkerData | null>(null);
   private readonly _visibleMarkers = signal<MapMarkerData[]>([]);
   private readonly _polylineData = signal<MapPolylineData | null>(null);
@@ -413,9 +454,27 @@ export class HistoryMapComponent implements OnInit, OnDestroy {
   readonly mapZoom = computed(() => this._mapZoom());
   readonly showPolyline = computed(() => this._showPolyline());
   readonly showMarkers = computed(() => this._showMarkers());
+  readonly showGeofences = computed(() => this._showGeofences());
+  readonly geofences = toSignal(this.geofenceService.geofences$, { initialValue: [] });
   readonly selectedMarkerData = computed(() => this._selectedMarkerData());
   readonly visibleMarkers = computed(() => this._visibleMarkers());
   readonly polylineData = computed(() => this._polylineData());
+  readonly geofenceSegments = computed<GeofenceSegmentData[]>(() => {
+    const data = this.locationData();
+    const selectedId = this.geofenceHistory.selectedVisit()?.id;
+
+    return this.geofenceHistory.analysis().visits.map(visit => ({
+      visitId: visit.id,
+      path: data.slice(visit.startIndex, visit.endIndex + 1).map(point => ({ lat: point.lat, lng: point.lng })),
+      options: {
+        strokeColor: visit.geofence.color,
+        strokeOpacity: visit.id === selectedId ? 1 : 0.85,
+        strokeWeight: visit.id === selectedId ? 9 : 6,
+        geodesic: true,
+        zIndex: visit.id === selectedId ? 20 : 10
+      }
+    }));
+  });
   readonly startMarker = computed(() => this._startMarker());
   readonly endMarker = computed(() => this._endMarker());
   
@@ -520,6 +579,14 @@ export class HistoryMapComponent implements OnInit, OnDestroy {
         this.clearMapData();
       }
     });
+
+    // Bring the visit picked on the geofence timeline into view
+    effect(() => {
+      const visit = this.geofenceHistory.selectedVisit();
+      if (visit) {
+        this.fitMapToPoints(untracked(this.locationData).slice(visit.startIndex, visit.endIndex + 1));
+      }
+    });
   }
 
   ngOnInit(): void {
@@ -572,17 +639,7 @@ export class HistoryMapComponent implements OnInit, OnDestroy {
   }
 
   fitMapToBounds(): void {
-    const data = this.locationData();
-    if (data.length === 0) return;
-
-    const bounds = new google.maps.LatLngBounds();
-    data.forEach(point => {
-      bounds.extend({ lat: point.lat, lng: point.lng });
-    });
-
-    if (this.googleMap?.googleMap) {
-      this.googleMap.googleMap.fitBounds(bounds);
-    }
+    this.fitMapToPoints(this.locationData());
   }
 
   togglePolyline(): void {
@@ -593,6 +650,10 @@ export class HistoryMapComponent implements OnInit, OnDestroy {
     this._showMarkers.set(!this.showMarkers());
   }
 
+  toggleGeofences(): void {
+    this._showGeofences.set(!this.showGeofences());
+  }
+
   refreshMap(): void {
     this.locationService.refreshData().pipe(
       takeUntil(this.destroy$)
@@ -618,6 +679,10 @@ export class HistoryMapComponent implements OnInit, OnDestroy {
     return `${marker.position.lat}-${marker.position.lng}-${index}`;
   }
 
+  trackBySegment(index: number, segment: GeofenceSegmentData): string {
+    return segment.visitId;
+  }
+
   // Formatting methods
 
   formatSelectedDate(): string {
@@ -679,6 +744,19 @@ export class HistoryMapComponent implements OnInit, OnDestroy {
 
   // Private methods
 
+  private fitMapToPoints(data: EnhancedLocationPoint[]): void {
+    if (data.length === 0) return;
+
+    const bounds = new google.maps.LatLngBounds();
+    data.forEach(point => {
+      bounds.extend({ lat: point.lat, lng: point.lng });
+    });
+
+    if (this.googleMap?.googleMap) {
+      this.googleMap.googleMap.fitBounds(bounds);
+    }
+  }
+
   private initializeMap(): void {
     // Set default center (could be user's location or a default location)
     this._mapCenter.set({ lat: 37.7749, lng: -122.4194 }); // San Francisco default
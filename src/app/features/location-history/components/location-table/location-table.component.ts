@@ -21,6 +21,9 @@ import { TagModule } from 'primeng/tag';
 import { SkeletonModule } from 'primeng/skeleton';
 import { Subject, takeUntil } from 'rxjs';
 import { LocationHistoryService } from '../../services/location-history.service';
+import { GeofenceHistoryService } from '../../services/geofence-history.service';
+import { HasPermissionDirective } from '../../../../shared/directives/has-permission.directive';
+import { TelemetryService } from '../../../../core/services/telemetry.service';
 import { 
   LocationPoint, 
   EnhancedLocationPoint, 
@@ -57,7 +60,8 @@ export interface DisplayTableColumn {
     TooltipModule,
     ProgressSpinnerModule,
     TagModule,
-    SkeletonModule
+    SkeletonModule,
+    HasPermissionDirective
   ],
   template: `
     <div class="location-table-container">
@@ -82,6 +86,7 @@ export interface DisplayTableColumn {
           <div class="flex align-items-center gap-2">
             <!-- Export Dropdown -->
             <p-dropdown
+              *appHasPermission="'location:export'"
               [options]="exportOptions"
               [ngModel]="selectedExportFormat()"
               placeholder="Export"
@@ -402,6 +407,8 @@ export class LocationTableComponent implements OnInit, OnDestroy {
   readonly Math = Math;
   private readonly destroy$ = new Subject<void>();
   private readonly locationService = inject(LocationHistoryService);
+  private readonly telemetry = inject(TelemetryService);
+  private readonly geofenceHistory = inject(GeofenceHistoryService);
 
   // Input/Output signals
   readonly showActions = input(true);
@@ -704,6 +711,8 @@ export class LocationTableComponent implements OnInit, OnDestroy {
         this.exportToPDF(data, filename);
         break;
     }
+
+    this.telemetry.trackAction('export', { format, rows: data.length });
     
     // Reset selection
     this._selectedExportFormat.set(null);
@@ -719,8 +728,13 @@ export class LocationTableComponent implements OnInit, OnDestroy {
       'Heading (°)',
       'Altitude (m)',
       'Accuracy (m)',
-      'Distance from Previous (m)'
+      'Distance from Previous (m)',
+      'Geofence Events'
     ];
+
+    // Rows may be filtered, so match events to points by identity rather than position
+    const eventsByIndex = this.geofenceHistory.describeEventsByIndex();
+    const geofenceEvents = new Map(this.locationData().map((point, index) => [point, eventsByIndex.get(index) ?? []]));
     
     const csvContent = [
       headers.join(','),
@@ -733,7 +747,8 @@ export class LocationTableComponent implements OnInit, OnDestroy {
         point.heading,
         point.alt || 0,
         this.getAccuracy(point),
-        point.distanceFromPrevious || 0
+        point.distanceFromPrevious || 0,
+        `"${(geofenceEvents.get(point) ?? []).join('; ').replace(/"/g, '""')}"`
       ].join(','))
     ].join('\n');
     
@@ -8,7 +8,7 @@ import {
   inject
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterModule } from '@angular/router';
+import { ActivatedRoute, ParamMap, RouterModule } from '@angular/router';
 import { MessageService } from 'primeng/api';
 import { ToastModule } from 'primeng/toast';
 import { ProgressBarModule } from 'primeng/progressbar';
@@ -21,9 +21,12 @@ import { Subject, takeUntil, debounceTime, distinctUntilChanged } from 'rxjs';
 import { toSignal } from '@angular/core/rxjs-interop';
 
 import { LocationHistoryService } from '../../services/location-history.service';
+import { TelemetryService } from '../../../../core/services/telemetry.service';
 import { CalendarSelectorComponent } from '../../components/calendar-selector/calendar-selector.component';
 import { LocationTableComponent } from '../../components/location-table/location-table.component';
 import { HistoryMapComponent } from '../../components/location-map/history-map.component';
+import { GeofenceTimelineComponent } from '../../components/geofence-timeline/geofence-timeline.component';
+import { HasPermissionDirective } from '../../../../shared/directives/has-permission.directive';
 import { 
   LocationPoint, 
   DeviceInfo, 
@@ -49,7 +52,9 @@ import {
     SkeletonModule,
     CalendarSelectorComponent,
     LocationTableComponent,
-    HistoryMapComponent
+    HistoryMapComponent,
+    GeofenceTimelineComponent,
+    HasPermissionDirective
   ],
   template: `
     <div class="location-history-page">
@@ -86,6 +91,7 @@ import {
             
             <!-- Clear Data Button -->
             <button 
+              *appHasPermission="'cache:clear'"
               pButton 
               type="button" 
               label="Clear" 
@@ -215,12 +221,19 @@ import {
                 
                 <!-- Map Tab -->
                 <p-tabPanel header="Map View" leftIcon="pi pi-map">
-                  <app-history-map
-                    [height]="'600px'"
-                    [showControls]="true"
-                    (markerClicked)="onMapMarkerClicked($event)"
-                    (coordinatesCopied)="onCoordinatesCopied($event)">
-                  </app-history-map>
+                  <div class="grid grid-cols-12 gap-4">
+                    <div class="col-span-12 xl:col-span-8">
+                      <app-history-map
+                        [height]="'600px'"
+                        [showControls]="true"
+                        (markerClicked)="onMapMarkerClicked($event)"
+                        (coordinatesCopied)="onCoordinatesCopied($event)">
+                      </app-history-map>
+                    </div>
+                    <div class="col-span-12 xl:col-span-4">
+                      <app-geofence-timeline></app-geofence-timeline>
+                    </div>
+                  </div>
                 </p-tabPanel>
                 
                 <!-- Table Tab -->
@@ -667,6 +680,8 @@ export class LocationHistoryPageComponent implements OnInit, OnDestroy {
   private readonly destroy$ = new Subject<void>();
   private readonly locationService = inject(LocationHistoryService);
   private readonly messageService = inject(MessageService);
+  private readonly telemetry = inject(TelemetryService);
+  private readonly route = inject(ActivatedRoute);
 
   // Component state signals
   private readonly _initialDevice = signal<number | null>(null);
@@ -698,18 +713,7 @@ export class LocationHistoryPageComponent implements OnInit, OnDestroy {
   readonly Math = Math;
 
   constructor() {
-    // Effect to handle error messages
-    effect(() => {
-      const error = this.error();
-      if (error) {
-        this.messageService.add({
-          severity: 'error',
-          summary: 'Error',
-          detail: error,
-          life: 5000
-        });
-      }
-    });
+    // Load failures are reported by LocationHistoryService through NotificationService
 
     // Effect to show success messages
     effect(() => {
@@ -738,6 +742,7 @@ export class LocationHistoryPageComponent implements OnInit, OnDestroy {
 
   onDeviceSelected(deviceId: number): void {
     this.locationService.setSelectedDevice(deviceId);
+    this.telemetry.trackAction('device_selected', { deviceId });
     this.messageService.add({
       severity: 'info',
       summary: 'Device Selected',
@@ -940,11 +945,49 @@ export class LocationHistoryPageComponent implements OnInit, OnDestroy {
   // Private methods
 
   private initializeComponent(): void {
-    // Could initialize with URL parameters or saved preferences
-    // For now, just ensure the service is ready
     this.locationService.loadDevices().pipe(
       takeUntil(this.destroy$)
     ).subscribe();
+    this.locationService.watchDevices().pipe(
+      takeUntil(this.destroy$)
+    ).subscribe();
+
+    // Deep links from the dashboard: device/:deviceId and device/:deviceId/date/:date
+    this.route.paramMap.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(params => this.applyRouteParams(params));
+  }
+
+  private applyRouteParams(params: ParamMap): void {
+    const deviceId = Number(params.get('deviceId'));
+    if (!Number.isInteger(deviceId) || deviceId <= 0) {
+      return;
+    }
+
+    this._initialDevice.set(deviceId);
+    this.locationService.setSelectedDevice(deviceId);
+
+    const date = this.parseDateParam(params.get('date'));
+    if (date) {
+      this._initialDate.set(date);
+      this.locationService.setSelectedDate(date);
+      this.locationService.getLocationData(deviceId, date).pipe(
+        takeUntil(this.destroy$)
+      ).subscribe();
+    }
+  }
+
+  /**
+   * `YYYY-MM-DD`, read as a local calendar day
+   */
+  private parseDateParam(value: string | null): Date | null {
+    const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      return null;
+    }
+
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date;
   }
 
   private haversineDistance(
@@ -0,0 +1,51 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { GeofenceService } from '../../../core/services/geofence.service';
+import { GeofenceAnalysis, GeofenceVisit, analyzeGeofenceHistory } from '../../../core/geofences/geofence-analysis';
+import { LocationHistoryService } from './location-history.service';
+
+/**
+ * Geofence entries, exits and time inside for the loaded location history,
+ * shared by the timeline, the history map and the table export
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GeofenceHistoryService {
+  private readonly locationService = inject(LocationHistoryService);
+  private readonly geofenceService = inject(GeofenceService);
+
+  private readonly _selectedVisitId = signal<string | null>(null);
+
+  readonly geofences = toSignal(this.geofenceService.geofences$, { initialValue: [] });
+
+  readonly analysis = computed<GeofenceAnalysis>(() => analyzeGeofenceHistory(
+    this.locationService.enhancedLocationData().map(point => ({
+      position: { lat: point.lat, lng: point.lng },
+      timestamp: new Date(point.utcTime).getTime()
+    })),
+    this.geofences()
+  ));
+
+  // Resolves to null once the data or the geofences change and the visit is gone
+  readonly selectedVisit = computed(() => {
+    const id = this._selectedVisitId();
+    return id ? this.analysis().visits.find(visit => visit.id === id) ?? null : null;
+  });
+
+  selectVisit(visit: GeofenceVisit | null): void {
+    this._selectedVisitId.set(visit?.id ?? null);
+  }
+
+  /**
+   * Entries and exits as text, keyed by the index of the point in the loaded data
+   */
+  describeEventsByIndex(): Map<number, string[]> {
+    const descriptions = new Map<number, string[]>();
+    this.analysis().events.forEach(event => {
+      const verb = event.type === 'enter' ? 'Entered' : 'Left';
+      descriptions.set(event.index, [...(descriptions.get(event.index) ?? []), `${verb} ${event.geofence.name}`]);
+    });
+    return descriptions;
+  }
+}
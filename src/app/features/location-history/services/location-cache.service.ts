@@ -1,6 +1,9 @@
-import { Injectable, signal, computed, effect } from '@angular/core';
+import { Injectable, signal, computed, effect, inject } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { AuthService } from '../../../core/services/auth.service';
 import { 
   LocationPoint, 
+  DeviceInfo,
   CacheEntry, 
   CacheConfig, 
   CacheMetrics 
@@ -8,12 +11,16 @@ import {
 
 /**
  * Location Cache Service with Angular 19 Signals
- * Implements intelligent caching with TTL, LRU eviction, and metrics
+ * Implements intelligent caching with TTL, LRU eviction, and metrics.
+ * Entries are partitioned by the active Traxbean account so switching
+ * accounts never serves another tenant's data.
  */
 @Injectable({
   providedIn: 'root'
 })
 export class LocationCacheService {
+  private readonly authService = inject(AuthService);
+
   private readonly config: CacheConfig = {
     maxSize: 100,
     defaultTtl: 600000, // 10 minutes
@@ -24,6 +31,7 @@ export class LocationCacheService {
   // Cache storage using Map for better performance
   private readonly availableDatesCache = new Map<string, CacheEntry<number[]>>();
   private readonly locationDataCache = new Map<string, CacheEntry<LocationPoint[]>>();
+  private readonly deviceListCache = new Map<string, CacheEntry<DeviceInfo[]>>();
   
   // Angular 19 Signals for reactive cache metrics
   private readonly _metrics = signal<CacheMetrics>({
@@ -47,9 +55,15 @@ export class LocationCacheService {
 
   // Cleanup interval reference
   private cleanupInterval?: number;
+  private accountsSubscription: Subscription;
 
   constructor() {
     this.startCleanupInterval();
+
+    // Drop cached data of accounts that were signed out
+    this.accountsSubscription = this.authService.accounts$.subscribe(accounts => {
+      this.retainAccounts(accounts.map(account => account.accountId));
+    });
     
     // Angular 19 effect to log cache metrics in development
     if (!this.isProduction()) {
@@ -64,7 +78,7 @@ export class LocationCacheService {
    * Get available dates from cache
    */
   getAvailableDates(key: string): number[] | null {
-    const result = this.getCachedData(this.availableDatesCache, key);
+    const result = this.getCachedData(this.availableDatesCache, this.scopeKey(key));
     this.updateMetrics(result !== null);
     return result;
   }
@@ -75,7 +89,7 @@ export class LocationCacheService {
   setAvailableDates(key: string, data: number[], ttl?: number): void {
     this.setCachedData(
       this.availableDatesCache, 
-      key, 
+      this.scopeKey(key), 
       data, 
       ttl ?? this.config.defaultTtl
     );
@@ -85,7 +99,7 @@ export class LocationCacheService {
    * Get location data from cache
    */
   getLocationData(key: string): LocationPoint[] | null {
-    const result = this.getCachedData(this.locationDataCache, key);
+    const result = this.getCachedData(this.locationDataCache, this.scopeKey(key));
     this.updateMetrics(result !== null);
     return result;
   }
@@ -96,24 +110,45 @@ export class LocationCacheService {
   setLocationData(key: string, data: LocationPoint[], ttl?: number): void {
     this.setCachedData(
       this.locationDataCache, 
-      key, 
+      this.scopeKey(key), 
       data, 
       ttl ?? this.config.defaultTtl * 2 // Location data cached longer
     );
   }
 
+  /**
+   * Get the device list from cache
+   */
+  getDeviceList(key: string): DeviceInfo[] | null {
+    const result = this.getCachedData(this.deviceListCache, this.scopeKey(key));
+    this.updateMetrics(result !== null);
+    return result;
+  }
+
+  /**
+   * Set the device list in cache
+   */
+  setDeviceList(key: string, data: DeviceInfo[], ttl?: number): void {
+    this.setCachedData(
+      this.deviceListCache,
+      this.scopeKey(key),
+      data,
+      ttl ?? this.config.defaultTtl
+    );
+  }
+
   /**
    * Check if data exists in cache (without retrieving)
    */
   hasAvailableDates(key: string): boolean {
-    return this.hasValidCacheEntry(this.availableDatesCache, key);
+    return this.hasValidCacheEntry(this.availableDatesCache, this.scopeKey(key));
   }
 
   /**
    * Check if location data exists in cache
    */
   hasLocationData(key: string): boolean {
-    return this.hasValidCacheEntry(this.locationDataCache, key);
+    return this.hasValidCacheEntry(this.locationDataCache, this.scopeKey(key));
   }
 
   /**
@@ -121,7 +156,7 @@ export class LocationCacheService {
    */
   prefetchKeys(keys: string[], type: 'dates' | 'locations'): string[] {
     const cache = type === 'dates' ? this.availableDatesCache : this.locationDataCache;
-    return keys.filter(key => !this.hasValidCacheEntry<number[] | LocationPoint[]>(cache, key));
+    return keys.filter(key => !this.hasValidCacheEntry<number[] | LocationPoint[]>(cache, this.scopeKey(key)));
   }
 
   /**
@@ -130,6 +165,7 @@ export class LocationCacheService {
   clearAll(): void {
     this.availableDatesCache.clear();
     this.locationDataCache.clear();
+    this.deviceListCache.clear();
     this.resetMetrics();
   }
 
@@ -176,12 +212,29 @@ export class LocationCacheService {
    * Destroy service and cleanup resources
    */
   ngOnDestroy(): void {
+    this.accountsSubscription.unsubscribe();
     this.stopCleanupInterval();
     this.clearAll();
   }
 
   // Private helper methods
 
+  private scopeKey(key: string): string {
+    return `${this.authService.getActiveAccountId() ?? 'anonymous'}|${key}`;
+  }
+
+  private retainAccounts(accountIds: string[]): void {
+    const retained = new Set(accountIds);
+
+    for (const cache of [this.availableDatesCache, this.locationDataCache, this.deviceListCache]) {
+      for (const key of cache.keys()) {
+        if (!retained.has(key.slice(0, key.indexOf('|')))) {
+          cache.delete(key);
+        }
+      }
+    }
+  }
+
   private getCachedData<T>(
     cache: Map<string, CacheEntry<T>>, 
     key: string
@@ -279,6 +332,14 @@ export class LocationCacheService {
       }
     }
 
+    // Clean device list cache
+    for (const [key, entry] of this.deviceListCache.entries()) {
+      if (this.isExpired(entry, now)) {
+        this.deviceListCache.delete(key);
+        expiredCount++;
+      }
+    }
+
     return expiredCount;
   }
 
@@ -1,5 +1,4 @@
 import { Injectable, signal, computed, inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
 import { 
   Observable, 
   BehaviorSubject, 
@@ -7,11 +6,14 @@ import {
   of, 
   EMPTY,
   timer,
-  merge
+  merge,
+  throwError
 } from 'rxjs';
 import { 
   map, 
+  filter,
   switchMap, 
+  exhaustMap, 
   catchError, 
   tap, 
   shareReplay, 
@@ -19,18 +21,23 @@ import {
   distinctUntilChanged,
   retry,
   timeout,
-  finalize
+  finalize,
+  skip
 } from 'rxjs/operators';
-import { toSignal } from '@angular/core/rxjs-interop';
+import { toSignal, takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { TraxbeanApiClient } from '../../../core/api/traxbean-api.client';
+import { AuthService } from '../../../core/services/auth.service';
+import { Device, DeviceService } from '../../../core/services/device.service';
 import { environment } from '../../../../environments/environment';
+import { ApiError, ErrorHandlerService } from '../../../core/services/error-handler.service';
+import { NotificationService } from '../../../core/services/notification.service';
+import { TelemetryService } from '../../../core/services/telemetry.service';
 import { LocationCacheService } from './location-cache.service';
 import {
   LocationPoint,
   EnhancedLocationPoint,
   LocationHistoryQuery,
   DateRangeQuery,
-  AvailableDatesResponse,
-  LocationDataResponse,
   LocationHistoryState,
   LocationStatistics,
   DeviceInfo,
@@ -46,9 +53,15 @@ import {
   providedIn: 'root'
 })
 export class LocationHistoryService {
-  private readonly http = inject(HttpClient);
+  private readonly apiClient = inject(TraxbeanApiClient);
   private readonly cacheService = inject(LocationCacheService);
-  private readonly apiUrl = environment.apiUrl;
+  private readonly authService = inject(AuthService);
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly telemetry = inject(TelemetryService);
+  private readonly deviceService = inject(DeviceService);
+  private readonly deviceListCacheKey = 'devices';
+  private devicesRequest$: Observable<DeviceInfo[]> | null = null;
 
   // Traditional BehaviorSubjects for complex state management
   private readonly selectedDeviceSubject = new BehaviorSubject<number | null>(null);
@@ -62,6 +75,7 @@ export class LocationHistoryService {
   private readonly _devices = signal<DeviceInfo[]>([]);
   private readonly _statistics = signal<LocationStatistics | null>(null);
   private readonly _lastUpdated = signal<Date | null>(null);
+  private readonly _devicesLoading = signal(false);
 
   // Convert Observables to Signals using toSignal
   public readonly selectedDevice = toSignal(this.selectedDeviceSubject.asObservable());
@@ -74,6 +88,7 @@ export class LocationHistoryService {
   public readonly devices = computed(() => this._devices());
   public readonly statistics = computed(() => this._statistics());
   public readonly lastUpdated = computed(() => this._lastUpdated());
+  public readonly devicesLoading = computed(() => this._devicesLoading());
   
   public readonly hasData = computed(() => this.locationData().length > 0);
   public readonly isReady = computed(() => 
@@ -116,6 +131,31 @@ export class LocationHistoryService {
 
   constructor() {
     this.initializeDevices();
+
+    // A different account means different devices: drop the current selection
+    this.authService.activeAccountId$.pipe(
+      distinctUntilChanged(),
+      skip(1),
+      takeUntilDestroyed()
+    ).subscribe(() => {
+      this.resetState();
+      this._devices.set([]);
+      this.initializeDevices();
+    });
+  }
+
+  /**
+   * Keep the device list in step with the live dashboard while signed in.
+   * Refreshes only while subscribed, so the history page owns the timer.
+   */
+  watchDevices(): Observable<DeviceInfo[]> {
+    const refreshMs = environment.locationHistory.deviceRefreshSeconds * 1000;
+
+    return this.authService.isAuthenticated$.pipe(
+      distinctUntilChanged(),
+      switchMap(isAuthenticated => isAuthenticated ? timer(refreshMs, refreshMs) : EMPTY),
+      exhaustMap(() => this.loadDevices(true))
+    );
   }
 
   /**
@@ -131,21 +171,14 @@ export class LocationHistoryService {
       return of(cached);
     }
 
+    const accountId = this.authService.getActiveAccountId();
     this.setLoading(true);
     this.clearError();
     
-    return this.http.post<AvailableDatesResponse>(
-      `${this.apiUrl}/app/traxbean/playbackExist`,
-      { targetId, year, month }
-    ).pipe(
+    return this.apiClient.playbackExist({ targetId, year, month }).pipe(
       timeout(10000), // 10 second timeout
-      retry({ count: 2, delay: 1000 }), // Retry twice with 1 second delay
-      map(response => {
-        if (response.code !== 200) {
-          throw new Error(response.message || 'Failed to fetch available dates');
-        }
-        return response.data || [];
-      }),
+      this.retryTransient(1000), // Retry twice with 1 second delay
+      filter(() => this.isActiveAccount(accountId)),
       tap(dates => {
         // Update cache and state
         this.cacheService.setAvailableDates(cacheKey, dates);
@@ -170,38 +203,28 @@ export class LocationHistoryService {
     const cached = this.cacheService.getLocationData(cacheKey);
     if (cached) {
       this.updateLocationDataState(cached);
+      this.trackPlayback(targetId, date, cached.length, true);
       return of(cached);
     }
 
+    const accountId = this.authService.getActiveAccountId();
     this.setLoading(true);
     this.clearError();
     
-    return this.http.post<LocationDataResponse>(
-      `${this.apiUrl}/app/traxbean/playback`,
-      {
-        targetId,
-        year: date.getFullYear(),
-        month: date.getMonth() + 1,
-        day: date.getDate()
-      }
-    ).pipe(
+    return this.apiClient.playback(this.toPlaybackRequest(targetId, date)).pipe(
       timeout(15000), // 15 second timeout for location data
-      retry({ count: 2, delay: 2000 }),
-      map(response => {
-        if (response.code !== 200) {
-          throw new Error(response.message || 'Failed to fetch location data');
-        }
-        return response.data || [];
-      }),
+      this.retryTransient(2000),
+      filter(() => this.isActiveAccount(accountId)),
       tap(locations => {
         // Update cache and state
         this.cacheService.setLocationData(cacheKey, locations);
         this.updateLocationDataState(locations);
         this.updateStatistics(locations);
         this._lastUpdated.set(new Date());
+        this.trackPlayback(targetId, date, locations.length, false);
         
         // Prefetch adjacent dates for better UX
-        this.prefetchAdjacentDates(targetId, date);
+        this.prefetchAdjacentDates(targetId, date, accountId);
       }),
       catchError(error => {
         this.handleError('Failed to load location data', error);
@@ -220,18 +243,13 @@ export class LocationHistoryService {
     this.setLoading(true);
     this.clearError();
 
-    return this.http.post<LocationDataResponse>(
-      `${this.apiUrl}/app/traxbean/tracking`,
-      query
-    ).pipe(
+    return this.apiClient.tracking({
+      targetId: parseInt(query.deviceId),
+      startTime: query.fromDate,
+      endTime: query.toDate
+    }).pipe(
       timeout(20000),
-      retry({ count: 2, delay: 2000 }),
-      map(response => {
-        if (response.code !== 200) {
-          throw new Error(response.message || 'Failed to fetch location data');
-        }
-        return response.data || [];
-      }),
+      this.retryTransient(2000),
       tap(locations => {
         this.updateLocationDataState(locations);
         this.updateStatistics(locations);
@@ -263,45 +281,64 @@ export class LocationHistoryService {
   }
 
   /**
-   * Load devices list
+   * Load the account's devices from Traxbean.
+   * Served from cache unless `forceRefresh` is set; concurrent callers share
+   * one request. Background refreshes fail silently and keep the last list.
    */
-  loadDevices(): Observable<DeviceInfo[]> {
-    // This would typically call an API endpoint
-    // For now, returning mock data
-    const mockDevices: DeviceInfo[] = [
-      {
-        id: 1,
-        name: 'Device 001',
-        type: 'GPS Tracker',
-        lastSeen: new Date(),
-        isOnline: true,
-        batteryLevel: 85
-      },
-      {
-        id: 2,
-        name: 'Device 002',
-        type: 'Mobile Phone',
-        lastSeen: new Date(Date.now() - 3600000),
-        isOnline: false,
-        batteryLevel: 42
+  loadDevices(forceRefresh = false): Observable<DeviceInfo[]> {
+    if (!forceRefresh) {
+      const cached = this.cacheService.getDeviceList(this.deviceListCacheKey);
+      if (cached) {
+        this._devices.set(cached);
+        return of(cached);
       }
-    ];
+    }
 
-    this._devices.set(mockDevices);
-    return of(mockDevices);
+    if (this.devicesRequest$) {
+      return this.devicesRequest$;
+    }
+
+    if (!this.authService.isAuthenticated()) {
+      return of(this._devices());
+    }
+
+    const accountId = this.authService.getActiveAccountId();
+    // Only an empty list shows as loading; refreshes swap the list in place
+    this._devicesLoading.set(this._devices().length === 0);
+
+    this.devicesRequest$ = this.deviceService.getDevices().pipe(
+      map(devices => devices.map(device => this.toDeviceInfo(device))),
+      tap(devices => {
+        // The account may have changed while the request was in flight
+        if (!this.isActiveAccount(accountId)) {
+          return;
+        }
+        this.cacheService.setDeviceList(this.deviceListCacheKey, devices);
+        this._devices.set(devices);
+      }),
+      catchError(error => {
+        if (forceRefresh) {
+          this.telemetry.trackError(error, { source: 'location-history', operation: 'Background device refresh' });
+        } else {
+          this.handleError('Failed to load devices', error);
+        }
+        return of(this._devices());
+      }),
+      finalize(() => {
+        this._devicesLoading.set(false);
+        this.devicesRequest$ = null;
+      }),
+      shareReplay(1)
+    );
+
+    return this.devicesRequest$;
   }
 
   /**
    * Clear all data and reset state
    */
   clearData(): void {
-    this.selectedDeviceSubject.next(null);
-    this.selectedDateSubject.next(null);
-    this.locationDataSubject.next([]);
-    this.availableDatesSubject.next(new Map());
-    this._statistics.set(null);
-    this._lastUpdated.set(null);
-    this.clearError();
+    this.resetState();
     this.cacheService.clearAll();
   }
 
@@ -325,6 +362,16 @@ export class LocationHistoryService {
 
   // Private helper methods
 
+  private resetState(): void {
+    this.selectedDeviceSubject.next(null);
+    this.selectedDateSubject.next(null);
+    this.locationDataSubject.next([]);
+    this.availableDatesSubject.next(new Map());
+    this._statistics.set(null);
+    this._lastUpdated.set(null);
+    this.clearError();
+  }
+
   private enhanceLocationData(data: LocationPoint[]): EnhancedLocationPoint[] {
     return data.map((point, index) => {
       const enhanced: EnhancedLocationPoint = {
@@ -409,7 +456,7 @@ export class LocationHistoryService {
     });
   }
 
-  private prefetchAdjacentDates(targetId: number, currentDate: Date): void {
+  private prefetchAdjacentDates(targetId: number, currentDate: Date, accountId: string | null): void {
     const prefetchDays = [-1, 1]; // Previous and next day
     
     prefetchDays.forEach(offset => {
@@ -420,16 +467,8 @@ export class LocationHistoryService {
       if (!this.cacheService.hasLocationData(cacheKey)) {
         // Prefetch without updating UI state
         timer(1000).pipe( // Delay prefetch to not interfere with current request
-          switchMap(() => this.http.post<LocationDataResponse>(
-            `${this.apiUrl}/app/traxbean/playback`,
-            {
-              targetId,
-              year: adjacentDate.getFullYear(),
-              month: adjacentDate.getMonth() + 1,
-              day: adjacentDate.getDate()
-            }
-          )),
-          map(response => response.data || []),
+          switchMap(() => this.apiClient.playback(this.toPlaybackRequest(targetId, adjacentDate))),
+          filter(() => this.isActiveAccount(accountId)),
           tap(locations => this.cacheService.setLocationData(cacheKey, locations)),
           catchError(() => of([]))
         ).subscribe();
@@ -437,6 +476,23 @@ export class LocationHistoryService {
     });
   }
 
+  /**
+   * Whether the account a request was sent for is still the active one;
+   * responses for an account switched away from are dropped
+   */
+  private isActiveAccount(accountId: string | null): boolean {
+    return accountId === this.authService.getActiveAccountId();
+  }
+
+  private toPlaybackRequest(targetId: number, date: Date) {
+    return {
+      targetId,
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate()
+    };
+  }
+
   private updateAvailableDatesState(cacheKey: string, dates: number[]): void {
     const currentMap = this.availableDatesSubject.value;
     currentMap.set(cacheKey, dates);
@@ -455,9 +511,47 @@ export class LocationHistoryService {
     this.errorSubject.next(null);
   }
 
-  private handleError(message: string, error: any): void {
-    console.error(message, error);
-    this.errorSubject.next(message);
+  /**
+   * Retry twice, but only failures that may go away on their own
+   * (timeouts, network drops, 5xx); bad requests fail immediately
+   */
+  private retryTransient<T>(delayMs: number) {
+    return retry<T>({
+      count: 2,
+      delay: error => this.errorHandler.handleApiError(error).retryable
+        ? timer(delayMs)
+        : throwError(() => error)
+    });
+  }
+
+  private handleError(message: string, error: unknown): void {
+    // HTTP failures are already reported by the telemetry interceptor
+    if (!(error instanceof ApiError)) {
+      this.telemetry.trackError(error, { source: 'location-history', operation: message });
+    }
+
+    const apiError = this.notificationService.error(error, message);
+    this.errorSubject.next(apiError.userMessage);
+  }
+
+  private toDeviceInfo(device: Device): DeviceInfo {
+    return {
+      id: parseInt(device.id, 10),
+      name: device.name || `Device ${device.id}`,
+      type: device.type || 'Unknown',
+      lastSeen: device.lastSeen ?? new Date(0),
+      isOnline: device.status === 'online',
+      batteryLevel: device.battery
+    };
+  }
+
+  private trackPlayback(targetId: number, date: Date, points: number, cached: boolean): void {
+    this.telemetry.trackAction('playback_loaded', {
+      targetId,
+      date: date.toDateString(),
+      points,
+      cached
+    });
   }
 
   private initializeDevices(): void {
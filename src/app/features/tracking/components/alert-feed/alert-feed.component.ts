@@ -0,0 +1,83 @@
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CardModule } from 'primeng/card';
+import { ButtonModule } from 'primeng/button';
+import { TagModule } from 'primeng/tag';
+import { BadgeModule } from 'primeng/badge';
+import { BehaviorSubject, Observable, combineLatest, map } from 'rxjs';
+import { AlertService, DeviceAlert } from '../../../../core/services/alert.service';
+
+/**
+ * Dashboard list of device alerts with acknowledge and resolve actions.
+ * Open alerts come first, then acknowledged ones; resolved alerts are hidden
+ * unless "Show resolved" is on.
+ */
+@Component({
+  selector: 'app-alert-feed',
+  standalone: true,
+  imports: [CommonModule, CardModule, ButtonModule, TagModule, BadgeModule],
+  templateUrl: './alert-feed.component.html',
+  styleUrl: './alert-feed.component.scss'
+})
+export class AlertFeedComponent {
+  @Output() deviceSelected = new EventEmitter<string>();
+
+  alerts$: Observable<DeviceAlert[]>;
+  openCount$: Observable<number>;
+  showResolved$ = new BehaviorSubject<boolean>(false);
+
+  private readonly stateOrder: Record<DeviceAlert['state'], number> = { open: 0, acknowledged: 1, resolved: 2 };
+
+  constructor(private alertService: AlertService) {
+    this.openCount$ = this.alertService.openCount$;
+    this.alerts$ = combineLatest([this.alertService.alerts$, this.showResolved$]).pipe(
+      map(([alerts, showResolved]) => alerts
+        .filter(alert => showResolved || alert.state !== 'resolved')
+        .sort((a, b) => this.stateOrder[a.state] - this.stateOrder[b.state] || b.lastSeenAt - a.lastSeenAt))
+    );
+  }
+
+  toggleResolved(): void {
+    this.showResolved$.next(!this.showResolved$.value);
+  }
+
+  acknowledge(alert: DeviceAlert): void {
+    this.alertService.acknowledge(alert.id);
+  }
+
+  resolve(alert: DeviceAlert): void {
+    this.alertService.resolve(alert.id);
+  }
+
+  clearResolved(): void {
+    this.alertService.clearResolved();
+  }
+
+  getSeverity(alert: DeviceAlert): 'danger' | 'warn' | 'secondary' {
+    if (alert.state === 'resolved') return 'secondary';
+    return alert.severity === 'critical' ? 'danger' : 'warn';
+  }
+
+  getStateLabel(alert: DeviceAlert): string {
+    switch (alert.state) {
+      case 'open': return 'Open';
+      case 'acknowledged': return 'Acknowledged';
+      default: return 'Resolved';
+    }
+  }
+
+  /**
+   * Wording for an unresolved alert whose condition has cleared
+   */
+  getClearedLabel(alert: DeviceAlert): string {
+    switch (alert.category) {
+      case 'strap': return 'strap back on';
+      case 'battery': return 'recharged';
+      default: return 'back in range';
+    }
+  }
+
+  trackByAlertId(index: number, alert: DeviceAlert): string {
+    return alert.id;
+  }
+}
@@ -0,0 +1,58 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BatterySample, BatteryThresholds } from '../../../../core/alerts/battery-rules';
+
+// SVG viewBox size; the chart scales to the panel width
+const WIDTH = 300;
+const HEIGHT = 80;
+
+/**
+ * Small battery-over-time line chart with the device's low and critical
+ * thresholds drawn as dashed guides
+ */
+@Component({
+  selector: 'app-battery-chart',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './battery-chart.component.html',
+  styleUrl: './battery-chart.component.scss'
+})
+export class BatteryChartComponent implements OnChanges {
+  @Input() samples: BatterySample[] = [];
+  @Input() thresholds: BatteryThresholds | null = null;
+
+  readonly width = WIDTH;
+  readonly height = HEIGHT;
+
+  points = '';
+  lastPoint: { x: number; y: number } | null = null;
+  startTime: number | null = null;
+  endTime: number | null = null;
+
+  ngOnChanges(): void {
+    const samples = this.samples;
+    if (samples.length === 0) {
+      this.points = '';
+      this.lastPoint = null;
+      this.startTime = this.endTime = null;
+      return;
+    }
+
+    this.startTime = samples[0].timestamp;
+    this.endTime = samples[samples.length - 1].timestamp;
+    const span = Math.max(1, this.endTime - this.startTime);
+
+    const coordinates = samples.map(sample => ({
+      // A single reading is drawn at the right edge
+      x: samples.length === 1 ? WIDTH : ((sample.timestamp - this.startTime!) / span) * WIDTH,
+      y: this.toY(sample.battery)
+    }));
+
+    this.points = coordinates.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+    this.lastPoint = coordinates[coordinates.length - 1];
+  }
+
+  toY(battery: number): number {
+    return HEIGHT - (Math.min(100, Math.max(0, battery)) / 100) * HEIGHT;
+  }
+}
@@ -0,0 +1,336 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { DrawerModule } from 'primeng/drawer';
+import { ProgressBarModule } from 'primeng/progressbar';
+import { TagModule } from 'primeng/tag';
+import { ButtonModule } from 'primeng/button';
+import { SkeletonModule } from 'primeng/skeleton';
+import { MessageModule } from 'primeng/message';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { InputTextModule } from 'primeng/inputtext';
+import { EMPTY, Observable, Subscription, catchError, concat, interval, merge, tap } from 'rxjs';
+import { environment } from '../../../../../environments/environment';
+import { DeviceInfoApiData, DeviceService, DeviceWithLocation, StrapState } from '../../../../core/services/device.service';
+import { ErrorHandlerService } from '../../../../core/services/error-handler.service';
+import { VitalsMonitorService } from '../../../../core/services/vitals-monitor.service';
+import { BatteryMonitorService } from '../../../../core/services/battery-monitor.service';
+import { DeviceGroup, DeviceGroupService } from '../../../../core/services/device-group.service';
+import {
+  BatteryEstimate,
+  BatterySample,
+  BatteryThresholds,
+  DEFAULT_BATTERY_THRESHOLDS,
+  getBatteryLevel
+} from '../../../../core/alerts/battery-rules';
+import { BatteryChartComponent } from '../battery-chart/battery-chart.component';
+import { AdaptivePoller } from '../../../../core/polling/adaptive-poller';
+
+export interface VitalReading {
+  label: string;
+  icon: string;
+  value: string;
+  unit: string;
+}
+
+/**
+ * Side panel with the selected device's live vitals from `getTargetInfo`.
+ * Vitals refresh on `liveMap.detailRefreshSeconds` while the panel is open.
+ */
+@Component({
+  selector: 'app-device-detail-panel',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterModule,
+    DrawerModule,
+    ProgressBarModule,
+    TagModule,
+    ButtonModule,
+    SkeletonModule,
+    MessageModule,
+    InputNumberModule,
+    InputTextModule,
+    BatteryChartComponent
+  ],
+  templateUrl: './device-detail-panel.component.html',
+  styleUrl: './device-detail-panel.component.scss'
+})
+export class DeviceDetailPanelComponent implements OnChanges, OnDestroy {
+  @Input() device: DeviceWithLocation | null = null;
+  @Input() visible: boolean = false;
+  @Input() deviceStatus: string = '';
+  @Input() indoor: boolean = false;
+  @Output() indoorChange = new EventEmitter<boolean>();
+  @Output() visibleChange = new EventEmitter<boolean>();
+  @Output() locate = new EventEmitter<DeviceWithLocation>();
+
+  info: DeviceInfoApiData | null = null;
+  isLoading = false;
+  errorMessage = '';
+  now = Date.now();
+  batteryHistory: BatterySample[] = [];
+  batteryEstimate: BatteryEstimate | null = null;
+  batteryThresholds: BatteryThresholds = DEFAULT_BATTERY_THRESHOLDS;
+  editingThresholds = false;
+  lowInput = DEFAULT_BATTERY_THRESHOLDS.low;
+  criticalInput = DEFAULT_BATTERY_THRESHOLDS.critical;
+  groups$: Observable<DeviceGroup[]>;
+  newGroupName = '';
+
+  private refreshSubscription: Subscription | null = null;
+  private loadedDeviceId: string | null = null;
+
+  constructor(
+    private deviceService: DeviceService,
+    private errorHandler: ErrorHandlerService,
+    private vitalsMonitor: VitalsMonitorService,
+    private batteryMonitor: BatteryMonitorService,
+    private deviceGroupService: DeviceGroupService
+  ) {
+    this.groups$ = this.deviceGroupService.groups$;
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!changes['device'] && !changes['visible']) {
+      return;
+    }
+
+    const deviceId = this.visible ? this.device?.id ?? null : null;
+    if (deviceId !== this.loadedDeviceId) {
+      this.startRefresh(deviceId);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stopRefresh();
+  }
+
+  close(): void {
+    this.visible = false;
+    this.visibleChange.emit(false);
+    this.startRefresh(null);
+  }
+
+  onVisibleChange(visible: boolean): void {
+    if (!visible) {
+      this.close();
+    }
+  }
+
+  get vitals(): VitalReading[] {
+    const info = this.info;
+    if (!info) {
+      return [];
+    }
+
+    return [
+      { label: 'Heart rate', icon: 'pi pi-heart', value: this.reading(info.heartrate), unit: 'bpm' },
+      { label: 'Blood oxygen', icon: 'pi pi-percentage', value: this.reading(info.bloodoxygen), unit: '%' },
+      { label: 'Temperature', icon: 'pi pi-sun', value: this.reading(info.temperature, 1), unit: '°C' },
+      {
+        label: 'Blood pressure',
+        icon: 'pi pi-chart-line',
+        value: info.systolic && info.diastolic ? `${info.systolic}/${info.diastolic}` : '—',
+        unit: 'mmHg'
+      },
+      { label: 'Steps', icon: 'pi pi-directions', value: info.steps ? info.steps.toLocaleString() : '—', unit: '' }
+    ];
+  }
+
+  get battery(): number | null {
+    return this.info?.battery ?? this.device?.battery ?? null;
+  }
+
+  get strapState(): StrapState {
+    return this.deviceService.getStrapState(this.info?.strap);
+  }
+
+  get strapLabel(): string {
+    switch (this.strapState) {
+      case 'on': return 'Strap on';
+      case 'removed': return 'Strap removed';
+      default: return 'No strap data';
+    }
+  }
+
+  get strapSeverity(): 'success' | 'danger' | 'secondary' {
+    switch (this.strapState) {
+      case 'on': return 'success';
+      case 'removed': return 'danger';
+      default: return 'secondary';
+    }
+  }
+
+  /**
+   * The newest of the dashboard fix and the detail record
+   */
+  get lastFixAt(): number | null {
+    const fromLocation = this.device?.location?.timestamp.getTime() ?? 0;
+    const fromInfo = this.info?.utcTimestamp ? parseInt(this.info.utcTimestamp, 10) : 0;
+    const latest = Math.max(fromLocation, isNaN(fromInfo) ? 0 : fromInfo);
+    return latest > 0 ? latest : null;
+  }
+
+  get lastFixAge(): string {
+    const lastFixAt = this.lastFixAt;
+    if (lastFixAt === null) {
+      return 'No fix yet';
+    }
+
+    const seconds = Math.max(0, Math.round((this.now - lastFixAt) / 1000));
+    if (seconds < 10) return 'just now';
+    if (seconds < 60) return `${seconds} s ago`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+    return `${Math.floor(seconds / 86400)} d ago`;
+  }
+
+  get timeToEmpty(): string {
+    if (!this.batteryEstimate) {
+      return 'Not enough readings';
+    }
+
+    const minutes = Math.round((this.batteryEstimate.emptyAt - this.now) / 60000);
+    if (minutes <= 0) return 'Due now';
+    if (minutes < 60) return `About ${minutes} min`;
+    if (minutes < 48 * 60) return `About ${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+    return `About ${Math.round(minutes / (24 * 60))} days`;
+  }
+
+  get thresholdsValid(): boolean {
+    return this.lowInput > 0 && this.lowInput < 100 && this.criticalInput > 0 && this.criticalInput < this.lowInput;
+  }
+
+  get hasCustomThresholds(): boolean {
+    return this.batteryThresholds !== DEFAULT_BATTERY_THRESHOLDS;
+  }
+
+  editThresholds(): void {
+    this.lowInput = this.batteryThresholds.low;
+    this.criticalInput = this.batteryThresholds.critical;
+    this.editingThresholds = true;
+  }
+
+  saveThresholds(): void {
+    if (this.device && this.thresholdsValid) {
+      this.batteryMonitor.setThresholds(this.device.id, { low: this.lowInput, critical: this.criticalInput });
+      this.editingThresholds = false;
+    }
+  }
+
+  resetThresholds(): void {
+    if (this.device) {
+      this.batteryMonitor.setThresholds(this.device.id, null);
+      this.editingThresholds = false;
+    }
+  }
+
+  get todayParam(): string {
+    const today = new Date();
+    const month = String(today.getMonth() + 1).padStart(2, '0');
+    const day = String(today.getDate()).padStart(2, '0');
+    return `${today.getFullYear()}-${month}-${day}`;
+  }
+
+  getLevelClass(value: number | null): string {
+    if (value === null) return '';
+    if (value > 50) return 'level-good';
+    if (value > 20) return 'level-medium';
+    return 'level-low';
+  }
+
+  /**
+   * Battery bar colour follows the device's alert thresholds
+   */
+  getBatteryLevelClass(battery: number | null): string {
+    if (battery === null) return '';
+    switch (getBatteryLevel(battery, this.batteryThresholds)) {
+      case 'critical': return 'level-low';
+      case 'low': return 'level-medium';
+      default: return 'level-good';
+    }
+  }
+
+  toggleGroup(group: DeviceGroup): void {
+    if (this.device) {
+      this.deviceGroupService.setMember(group.id, this.device.id, !group.deviceIds.includes(this.device.id));
+    }
+  }
+
+  addGroup(): void {
+    if (this.device && this.deviceGroupService.addToNewGroup(this.device.id, this.newGroupName)) {
+      this.newGroupName = '';
+    }
+  }
+
+  onLocate(): void {
+    if (this.device) {
+      this.locate.emit(this.device);
+    }
+  }
+
+  private startRefresh(deviceId: string | null): void {
+    this.stopRefresh();
+    this.loadedDeviceId = deviceId;
+    this.info = null;
+    this.errorMessage = '';
+    this.editingThresholds = false;
+    this.batteryHistory = [];
+    this.batteryEstimate = null;
+    this.batteryThresholds = DEFAULT_BATTERY_THRESHOLDS;
+
+    if (!deviceId) {
+      return;
+    }
+
+    this.isLoading = true;
+    const load = () => this.deviceService.getDeviceInfo(deviceId).pipe(
+      tap(info => {
+        this.info = info;
+        this.isLoading = false;
+        this.errorMessage = '';
+        // The panel refreshes faster than the background monitor, so let its readings raise alerts too
+        if (this.device) {
+          this.vitalsMonitor.evaluate(this.device, info);
+        }
+      })
+    );
+
+    const poller = new AdaptivePoller(load, {
+      intervalMs: environment.liveMap.detailRefreshSeconds * 1000,
+      maxIntervalMs: environment.livePositions.maxPollIntervalSeconds * 1000,
+      onError: error => this.showError(error)
+    });
+
+    this.refreshSubscription = merge(
+      concat(
+        load().pipe(catchError(error => {
+          this.showError(error);
+          return EMPTY;
+        })),
+        poller.run()
+      ),
+      interval(1000).pipe(tap(() => this.now = Date.now())),
+      this.batteryMonitor.history$(deviceId).pipe(tap(samples => this.batteryHistory = samples)),
+      this.batteryMonitor.estimate$(deviceId).pipe(tap(estimate => this.batteryEstimate = estimate)),
+      this.batteryMonitor.thresholds$(deviceId).pipe(tap(thresholds => this.batteryThresholds = thresholds))
+    ).subscribe();
+  }
+
+  private showError(error: unknown): void {
+    this.isLoading = false;
+    this.errorMessage = this.errorHandler.handleApiError(error).userMessage;
+  }
+
+  private stopRefresh(): void {
+    this.refreshSubscription?.unsubscribe();
+    this.refreshSubscription = null;
+  }
+
+  private reading(value: number | null | undefined, digits: number = 0): string {
+    return value ? value.toFixed(digits) : '—';
+  }
+}
@@ -0,0 +1,87 @@
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { DropdownModule } from 'primeng/dropdown';
+import { IconFieldModule } from 'primeng/iconfield';
+import { InputIconModule } from 'primeng/inputicon';
+import { InputTextModule } from 'primeng/inputtext';
+import { MultiSelectModule } from 'primeng/multiselect';
+import { SliderModule } from 'primeng/slider';
+import { Observable, Subject, debounceTime, map, takeUntil } from 'rxjs';
+import { StrapState } from '../../../../core/services/device.service';
+import { DeviceGroupService } from '../../../../core/services/device-group.service';
+import { DEVICE_STATUSES, DEVICE_TYPES, DeviceFilterService, DeviceStatusFilter } from '../../services/device-filter.service';
+
+// Typing and dragging the battery range settle before the URL is rewritten
+const URL_UPDATE_DEBOUNCE_MS = 300;
+
+/**
+ * Search and filters above the dashboard device table; the same filters
+ * apply to the map markers
+ */
+@Component({
+  selector: 'app-device-filter-bar',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    DropdownModule,
+    IconFieldModule,
+    InputIconModule,
+    InputTextModule,
+    MultiSelectModule,
+    SliderModule
+  ],
+  templateUrl: './device-filter-bar.component.html',
+  styleUrl: './device-filter-bar.component.scss'
+})
+export class DeviceFilterBarComponent implements OnDestroy {
+  @Input() shown = 0;
+  @Input() total = 0;
+  @Output() filtersChange = new EventEmitter<void>();
+
+  typeOptions = DEVICE_TYPES.map(type => ({ label: type, value: type }));
+  statusOptions: { label: string; value: DeviceStatusFilter }[] = DEVICE_STATUSES.map(status => ({
+    label: status.charAt(0).toUpperCase() + status.slice(1),
+    value: status
+  }));
+  strapOptions: { label: string; value: StrapState | 'all' }[] = [
+    { label: 'All straps', value: 'all' },
+    { label: 'Strap on', value: 'on' },
+    { label: 'Strap removed', value: 'removed' },
+    { label: 'No strap sensor', value: 'unknown' }
+  ];
+  groupOptions$: Observable<{ label: string; value: string }[]>;
+
+  private urlUpdates$ = new Subject<void>();
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    public filterService: DeviceFilterService,
+    private deviceGroupService: DeviceGroupService
+  ) {
+    this.groupOptions$ = this.deviceGroupService.groups$.pipe(
+      map(groups => groups.map(group => ({ label: group.name, value: group.id })))
+    );
+    this.urlUpdates$.pipe(debounceTime(URL_UPDATE_DEBOUNCE_MS), takeUntil(this.destroy$)).subscribe(() => {
+      this.filterService.writeToUrl();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  changed(): void {
+    this.filtersChange.emit();
+    this.urlUpdates$.next();
+  }
+
+  clear(): void {
+    this.filterService.reset();
+    this.changed();
+  }
+}
@@ -0,0 +1,124 @@
+import { Component, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GoogleMapsModule, MapCircle, MapPolygon } from '@angular/google-maps';
+import { GeofenceEditorService } from '../../services/geofence-editor.service';
+
+const DRAFT_COLOR = '#f97316';
+
+/**
+ * Editable shape of the geofence being drawn or edited. Place it inside the
+ * dashboard <google-map>.
+ */
+@Component({
+  selector: 'app-geofence-draft-overlay',
+  standalone: true,
+  imports: [CommonModule, GoogleMapsModule],
+  templateUrl: './geofence-draft-overlay.component.html'
+})
+export class GeofenceDraftOverlayComponent {
+  @ViewChild(MapCircle) circle?: MapCircle;
+  @ViewChild(MapPolygon) polygon?: MapPolygon;
+
+  private cachedRevision: string | null = null;
+  private cachedCircleOptions: google.maps.CircleOptions | null = null;
+  private cachedPolygonOptions: google.maps.PolygonOptions | null = null;
+  private cachedVertexOptions: google.maps.MarkerOptions | null = null;
+
+  constructor(private editor: GeofenceEditorService) {}
+
+  get showCircle(): boolean {
+    return this.editor.draft?.tool === 'circle' && this.editor.draft.center !== null;
+  }
+
+  get showPolygon(): boolean {
+    return this.editor.draft?.tool === 'polygon' && this.editor.draft.path.length >= 2;
+  }
+
+  // A single corner has no polygon to show yet
+  get showFirstVertex(): boolean {
+    return this.editor.draft?.tool === 'polygon' && this.editor.draft.path.length === 1;
+  }
+
+  get circleOptions(): google.maps.CircleOptions | null {
+    this.refreshOptions();
+    return this.cachedCircleOptions;
+  }
+
+  get polygonOptions(): google.maps.PolygonOptions | null {
+    this.refreshOptions();
+    return this.cachedPolygonOptions;
+  }
+
+  get vertexOptions(): google.maps.MarkerOptions | null {
+    this.refreshOptions();
+    return this.cachedVertexOptions;
+  }
+
+  onCircleChanged(): void {
+    const center = this.circle?.getCenter();
+    const radius = this.circle?.getRadius();
+    if (center && radius !== undefined) {
+      this.editor.updateCircle({ lat: center.lat(), lng: center.lng() }, radius);
+    }
+  }
+
+  onPolygonChanged(): void {
+    const path = this.polygon?.getPath();
+    if (path) {
+      this.editor.updatePath(path.getArray().map(point => ({ lat: point.lat(), lng: point.lng() })));
+    }
+  }
+
+  /**
+   * Clicks inside the unfinished polygon still add corners, except on its handles
+   */
+  onPolygonClick(event: google.maps.PolyMouseEvent): void {
+    if (event.latLng && event.vertex === undefined && event.edge === undefined && !this.editor.draft?.id) {
+      this.editor.addPoint({ lat: event.latLng.lat(), lng: event.latLng.lng() });
+    }
+  }
+
+  /**
+   * Options are rebuilt only when the draft was changed from outside the map;
+   * rebuilding them after a drag would snap the shape back
+   */
+  private refreshOptions(): void {
+    const draft = this.editor.draft;
+    const revision = draft ? `${draft.id ?? 'new'}-${draft.tool}-${draft.revision}` : null;
+    if (revision === this.cachedRevision) {
+      return;
+    }
+
+    this.cachedRevision = revision;
+    const style = {
+      strokeColor: DRAFT_COLOR,
+      strokeWeight: 2,
+      fillColor: DRAFT_COLOR,
+      fillOpacity: 0.2,
+      editable: true,
+      draggable: true,
+      zIndex: 2
+    };
+
+    this.cachedCircleOptions = draft?.center
+      ? { ...style, center: draft.center, radius: draft.radiusMeters }
+      : null;
+    this.cachedPolygonOptions = draft && draft.path.length >= 2
+      ? { ...style, paths: draft.path }
+      : null;
+    this.cachedVertexOptions = draft && draft.path.length === 1
+      ? {
+          position: draft.path[0],
+          clickable: false,
+          icon: {
+            path: google.maps.SymbolPath.CIRCLE,
+            scale: 5,
+            fillColor: DRAFT_COLOR,
+            fillOpacity: 1,
+            strokeColor: '#ffffff',
+            strokeWeight: 2
+          }
+        }
+      : null;
+  }
+}
@@ -0,0 +1,112 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CardModule } from 'primeng/card';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { TagModule } from 'primeng/tag';
+import { Observable, map } from 'rxjs';
+import { Geofence } from '../../../../core/geofences/geofence-geometry';
+import { GeofenceEvent, GeofenceService } from '../../../../core/services/geofence.service';
+import { NotificationService } from '../../../../core/services/notification.service';
+import { GeofenceEditorService, GeofenceTool } from '../../services/geofence-editor.service';
+
+// Events listed under the geofences; the service keeps more
+const VISIBLE_EVENTS = 10;
+
+/**
+ * Geofence list with drawing tools and the latest enter/exit/dwell events
+ */
+@Component({
+  selector: 'app-geofence-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule, CardModule, ButtonModule, InputTextModule, InputNumberModule, TagModule],
+  templateUrl: './geofence-panel.component.html',
+  styleUrl: './geofence-panel.component.scss'
+})
+export class GeofencePanelComponent {
+  geofences$: Observable<Geofence[]>;
+  events$: Observable<GeofenceEvent[]>;
+
+  constructor(
+    public editor: GeofenceEditorService,
+    private geofenceService: GeofenceService,
+    private notificationService: NotificationService
+  ) {
+    this.geofences$ = this.geofenceService.geofences$;
+    this.events$ = this.geofenceService.events$.pipe(map(events => events.slice(0, VISIBLE_EVENTS)));
+  }
+
+  get drawingHint(): string {
+    const draft = this.editor.draft;
+    if (!draft) {
+      return '';
+    }
+    if (draft.tool === 'circle') {
+      return draft.center
+        ? 'Drag the centre to move the circle and its edge to resize it.'
+        : 'Click the map to place the centre of the circle.';
+    }
+    return draft.path.length < 3
+      ? `Click the map to add corners (${draft.path.length} of at least 3).`
+      : 'Click to add more corners, or drag the corners and midpoints to adjust.';
+  }
+
+  startDrawing(tool: GeofenceTool): void {
+    this.editor.startDrawing(tool);
+  }
+
+  save(): void {
+    const geofence = this.editor.save();
+    if (geofence) {
+      this.notificationService.success('Geofence saved', geofence.name);
+    }
+  }
+
+  remove(geofence: Geofence): void {
+    if (this.editor.draft?.id === geofence.id) {
+      this.editor.cancel();
+    }
+    this.geofenceService.remove(geofence.id);
+    this.notificationService.info('Geofence deleted', geofence.name);
+  }
+
+  clearEvents(): void {
+    this.geofenceService.clearEvents();
+  }
+
+  describeShape(geofence: Geofence): string {
+    const shape = geofence.shape;
+    if (shape.type === 'circle') {
+      return shape.radiusMeters >= 1000
+        ? `Circle, ${(shape.radiusMeters / 1000).toFixed(1)} km radius`
+        : `Circle, ${shape.radiusMeters} m radius`;
+    }
+    return `Polygon, ${shape.path.length} corners`;
+  }
+
+  getEventSeverity(event: GeofenceEvent): 'success' | 'secondary' | 'warn' {
+    switch (event.type) {
+      case 'enter': return 'success';
+      case 'exit': return 'secondary';
+      default: return 'warn';
+    }
+  }
+
+  getEventLabel(event: GeofenceEvent): string {
+    switch (event.type) {
+      case 'enter': return 'Enter';
+      case 'exit': return 'Exit';
+      default: return 'Dwell';
+    }
+  }
+
+  trackByGeofenceId(index: number, geofence: Geofence): string {
+    return geofence.id;
+  }
+
+  trackByEventId(index: number, event: GeofenceEvent): string {
+    return event.id;
+  }
+}
@@ -0,0 +1,254 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DropdownModule } from 'primeng/dropdown';
+import { ButtonModule } from 'primeng/button';
+import { MessageModule } from 'primeng/message';
+import { ProgressSpinnerModule } from 'primeng/progressspinner';
+import { EMPTY, Observable, Subscription, catchError, concat, defer, forkJoin, from, map, mergeMap, of, tap, toArray } from 'rxjs';
+import { environment } from '../../../../../environments/environment';
+import { DeviceService, DeviceWithLocation, IndoorPosition } from '../../../../core/services/device.service';
+import { ErrorHandlerService } from '../../../../core/services/error-handler.service';
+import { AdaptivePoller } from '../../../../core/polling/adaptive-poller';
+
+// Parallel getGeoLocationLK calls per refresh
+const CONCURRENT_REQUESTS = 3;
+
+export interface FloorPlan {
+  key: string;
+  siteName: string;
+  floorName: string;
+  mapUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Floor-plan view of indoor fixes from `getGeoLocationLK`. Follows the floor
+ * of the focused device until the user picks another site or floor, and
+ * plots every dashboard device currently on the shown floor. The dashboard
+ * devices are all checked for an indoor fix every `indoorScanSeconds`; the
+ * refreshes in between only query the devices last seen on the shown site.
+ */
+@Component({
+  selector: 'app-indoor-floor-view',
+  standalone: true,
+  imports: [CommonModule, FormsModule, DropdownModule, ButtonModule, MessageModule, ProgressSpinnerModule],
+  templateUrl: './indoor-floor-view.component.html',
+  styleUrl: './indoor-floor-view.component.scss'
+})
+export class IndoorFloorViewComponent implements OnChanges, OnDestroy {
+  @Input() device: DeviceWithLocation | null = null;
+  @Input() devices: DeviceWithLocation[] = [];
+  @Output() outdoor = new EventEmitter<void>();
+  @Output() deviceSelected = new EventEmitter<string>();
+
+  positions: IndoorPosition[] = [];
+  floors: FloorPlan[] = [];
+  sites: string[] = [];
+  siteFloors: FloorPlan[] = [];
+  floorPositions: IndoorPosition[] = [];
+  selectedSite: string | null = null;
+  selectedFloorKey: string | null = null;
+  isLoading = false;
+  errorMessage = '';
+  skippedDevices = 0; // Dashboard devices left out of the last scan by `indoorMaxDevices`
+  readonly maxDevices = environment.liveMap.indoorMaxDevices;
+
+  private followDevice = true;
+  private refreshSubscription: Subscription | null = null;
+  private loadedDeviceId: string | null = null;
+  private lastScanAt = 0;
+
+  constructor(
+    private deviceService: DeviceService,
+    private errorHandler: ErrorHandlerService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['device'] && (this.device?.id ?? null) !== this.loadedDeviceId) {
+      this.startRefresh(this.device?.id ?? null);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.refreshSubscription?.unsubscribe();
+  }
+
+  get focusPosition(): IndoorPosition | null {
+    return this.positions.find(position => position.deviceId === this.device?.id) ?? null;
+  }
+
+  get selectedFloor(): FloorPlan | null {
+    return this.floors.find(floor => floor.key === this.selectedFloorKey) ?? null;
+  }
+
+  get showingFocusFloor(): boolean {
+    const focus = this.focusPosition;
+    return focus !== null && this.floorKey(focus) === this.selectedFloorKey;
+  }
+
+  /**
+   * Marker radius in floor-map pixels, so markers keep their size relative to the plan
+   */
+  get markerRadius(): number {
+    const floor = this.selectedFloor;
+    return floor ? Math.max(floor.width, floor.height) / 80 : 0;
+  }
+
+  onSiteChange(): void {
+    this.followDevice = false;
+    this.selectedFloorKey = this.floors.find(floor => floor.siteName === this.selectedSite)?.key ?? null;
+    this.updateFloorView();
+  }
+
+  onFloorChange(): void {
+    this.followDevice = false;
+    this.updateFloorView();
+  }
+
+  showDeviceFloor(): void {
+    this.followDevice = true;
+    this.applySelection();
+  }
+
+  getDeviceName(deviceId: string): string {
+    return this.devices.find(device => device.id === deviceId)?.name ?? `Device ${deviceId}`;
+  }
+
+  trackByDeviceId(index: number, position: IndoorPosition): string {
+    return position.deviceId;
+  }
+
+  private startRefresh(deviceId: string | null): void {
+    this.refreshSubscription?.unsubscribe();
+    this.refreshSubscription = null;
+    this.loadedDeviceId = deviceId;
+    this.positions = [];
+    this.floors = [];
+    this.sites = [];
+    this.siteFloors = [];
+    this.floorPositions = [];
+    this.selectedSite = null;
+    this.selectedFloorKey = null;
+    this.followDevice = true;
+    this.errorMessage = '';
+    this.skippedDevices = 0;
+    this.lastScanAt = 0;
+
+    if (!deviceId) {
+      return;
+    }
+
+    this.isLoading = true;
+    const load = () => this.loadPositions(deviceId).pipe(
+      tap(positions => {
+        this.positions = positions;
+        this.isLoading = false;
+        this.errorMessage = '';
+        this.applySelection();
+      })
+    );
+
+    const poller = new AdaptivePoller(load, {
+      intervalMs: environment.liveMap.indoorRefreshSeconds * 1000,
+      maxIntervalMs: environment.livePositions.maxPollIntervalSeconds * 1000,
+      onError: error => this.showError(error)
+    });
+
+    this.refreshSubscription = concat(
+      load().pipe(catchError(error => {
+        this.showError(error);
+        return EMPTY;
+      })),
+      poller.run()
+    ).subscribe();
+  }
+
+  /**
+   * The focused device's fix, plus those of the other dashboard devices so
+   * they show up on the same floor. A scan checks every other device, those
+   * already known to be indoors first; other refreshes only query the devices
+   * on the shown site and keep the last fixes of the rest. Only a failure for
+   * the focused device fails the refresh.
+   */
+  private loadPositions(deviceId: string): Observable<IndoorPosition[]> {
+    return defer(() => {
+      const scan = Date.now() - this.lastScanAt >= environment.liveMap.indoorScanSeconds * 1000;
+      const known = new Map(this.positions.map(position => [position.deviceId, position]));
+      const candidates = this.devices
+        .filter(device => device.id !== deviceId)
+        .map(device => device.id)
+        .filter(id => scan || (this.selectedSite !== null && known.get(id)?.siteName === this.selectedSite))
+        .sort((a, b) => Number(known.has(b)) - Number(known.has(a)));
+      const others = candidates.slice(0, this.maxDevices);
+      const queried = new Set([deviceId, ...others]);
+      const kept = scan ? [] : this.positions.filter(position => !queried.has(position.deviceId));
+
+      return forkJoin([
+        this.deviceService.getIndoorPosition(deviceId),
+        from(others).pipe(
+          mergeMap(id => this.deviceService.getIndoorPosition(id).pipe(catchError(() => of(null))), CONCURRENT_REQUESTS),
+          toArray()
+        )
+      ]).pipe(
+        tap(() => {
+          if (scan) {
+            this.lastScanAt = Date.now();
+            this.skippedDevices = candidates.length - others.length;
+          }
+        }),
+        map(([focus, rest]) => [focus, ...rest, ...kept].filter((position): position is IndoorPosition => position !== null))
+      );
+    });
+  }
+
+  private applySelection(): void {
+    const floors = new Map<string, FloorPlan>();
+    this.positions.forEach(position => {
+      const key = this.floorKey(position);
+      if (!floors.has(key)) {
+        floors.set(key, {
+          key,
+          siteName: position.siteName,
+          floorName: position.floorName,
+          mapUrl: position.mapUrl,
+          width: position.width,
+          height: position.height
+        });
+      }
+    });
+
+    this.floors = [...floors.values()].sort((a, b) =>
+      a.siteName.localeCompare(b.siteName) || a.floorName.localeCompare(b.floorName, undefined, { numeric: true })
+    );
+    this.sites = [...new Set(this.floors.map(floor => floor.siteName))];
+
+    const focus = this.focusPosition;
+    if (this.followDevice && focus) {
+      this.selectedFloorKey = this.floorKey(focus);
+    } else if (!this.selectedFloor) {
+      this.selectedFloorKey = this.floors[0]?.key ?? null;
+    }
+    this.updateFloorView();
+  }
+
+  private updateFloorView(): void {
+    const key = this.selectedFloorKey;
+    this.selectedSite = this.selectedFloor?.siteName ?? null;
+    this.siteFloors = this.floors.filter(floor => floor.siteName === this.selectedSite);
+    // The focused device is drawn last so it stays on top
+    this.floorPositions = this.positions
+      .filter(position => this.floorKey(position) === key)
+      .sort((a, b) => Number(a.deviceId === this.device?.id) - Number(b.deviceId === this.device?.id));
+  }
+
+  private floorKey(position: IndoorPosition): string {
+    return `${position.siteName}\u0000${position.floorName}`;
+  }
+
+  private showError(error: unknown): void {
+    this.isLoading = false;
+    this.errorMessage = this.errorHandler.handleApiError(error).userMessage;
+  }
+}
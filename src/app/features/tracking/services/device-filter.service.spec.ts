@@ -0,0 +1,137 @@
+import { ActivatedRoute, Router, convertToParamMap } from '@angular/router';
+import { TraxbeanApiClient } from '../../../core/api/traxbean-api.client';
+import { DeviceGroup, DeviceGroupService } from '../../../core/services/device-group.service';
+import { DeviceService, DeviceWithLocation } from '../../../core/services/device.service';
+import { UserService } from '../../../core/services/user.service';
+import { DeviceFilterService } from './device-filter.service';
+
+describe('DeviceFilterService', () => {
+  const groups: DeviceGroup[] = [
+    { id: 'grp-north', name: 'North', color: '#2563eb', deviceIds: ['1', '2'] },
+    { id: 'grp-south', name: 'South', color: '#16a34a', deviceIds: ['3'] }
+  ];
+
+  const devices: DeviceWithLocation[] = [
+    { id: '1', name: 'Alice Watch', type: 'Wearable', status: 'Online', battery: 80, strap: 1, imei: '861000000000001' },
+    { id: '2', name: 'Van 12', type: 'Vehicle', status: 'Offline', battery: 15, model: 'GT06' },
+    { id: '3', name: 'Bob Watch', type: 'Wearable', status: 'Recent', battery: 45, strap: 0 },
+    { id: '4', name: 'Pallet tracker', type: 'Asset', status: 'Online' }
+  ];
+  const statusOf = (device: DeviceWithLocation) => device.status ?? 'Offline';
+
+  let service: DeviceFilterService;
+  let router: jasmine.SpyObj<Router>;
+
+  function ids(result: DeviceWithLocation[]): string[] {
+    return result.map(device => device.id);
+  }
+
+  beforeEach(() => {
+    router = jasmine.createSpyObj<Router>('Router', ['navigate']);
+    service = new DeviceFilterService(
+      new DeviceService({} as TraxbeanApiClient, {} as UserService),
+      { getGroups: () => groups } as DeviceGroupService,
+      router,
+      {} as ActivatedRoute
+    );
+  });
+
+  describe('readFromUrl', () => {
+    it('reads every filter from the query', () => {
+      const changed = service.readFromUrl(convertToParamMap({
+        q: 'watch',
+        type: 'Wearable,Vehicle',
+        status: 'online,recent',
+        battery: '20,90',
+        strap: 'on',
+        group: 'grp-north'
+      }));
+
+      expect(changed).toBeTrue();
+      expect(service.filters).toEqual({
+        search: 'watch',
+        types: ['Wearable', 'Vehicle'],
+        statuses: ['online', 'recent'],
+        battery: [20, 90],
+        strap: 'on',
+        groupIds: ['grp-north']
+      });
+      expect(service.activeCount).toBe(6);
+    });
+
+    it('ignores values it does not know', () => {
+      service.readFromUrl(convertToParamMap({ type: 'Boat', status: 'lost', battery: '90,20', strap: 'loose' }));
+
+      expect(service.filters).toEqual({ search: '', types: [], statuses: [], battery: [0, 100], strap: 'all', groupIds: [] });
+      expect(service.activeCount).toBe(0);
+    });
+
+    it('drops groups that do not exist in this browser and lists them', () => {
+      service.readFromUrl(convertToParamMap({ group: 'grp-south,grp-elsewhere' }));
+
+      expect(service.filters.groupIds).toEqual(['grp-south']);
+      expect(service.unknownGroupIds).toEqual(['grp-elsewhere']);
+    });
+
+    it('reports no change when the query gives the current filters', () => {
+      const params = convertToParamMap({ q: 'van' });
+
+      expect(service.readFromUrl(params)).toBeTrue();
+      expect(service.readFromUrl(params)).toBeFalse();
+    });
+  });
+
+  describe('writeToUrl', () => {
+    it('mirrors active filters and clears the rest', () => {
+      service.filters.types = ['Asset'];
+      service.writeToUrl();
+
+      expect(router.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+        queryParams: { q: null, type: 'Asset', status: null, battery: null, strap: null, group: null },
+        queryParamsHandling: 'merge',
+        replaceUrl: true
+      }));
+    });
+  });
+
+  describe('apply', () => {
+    it('returns every device without filters', () => {
+      expect(service.apply(devices, statusOf)).toBe(devices);
+    });
+
+    it('searches name, IMEI and model with every term', () => {
+      service.filters.search = 'gt06 van';
+      expect(ids(service.apply(devices, statusOf))).toEqual(['2']);
+
+      service.filters.search = '8610';
+      expect(ids(service.apply(devices, statusOf))).toEqual(['1']);
+    });
+
+    it('filters by type and by the dashboard status', () => {
+      service.filters.types = ['Wearable'];
+      service.filters.statuses = ['recent'];
+
+      expect(ids(service.apply(devices, statusOf))).toEqual(['3']);
+    });
+
+    it('leaves out devices without a reading once the battery range is narrowed', () => {
+      service.filters.battery = [0, 50];
+
+      expect(ids(service.apply(devices, statusOf))).toEqual(['2', '3']);
+    });
+
+    it('filters by strap state', () => {
+      service.filters.strap = 'unknown';
+
+      expect(ids(service.apply(devices, statusOf))).toEqual(['2', '4']);
+    });
+
+    it('keeps devices in any of the selected groups', () => {
+      service.filters.groupIds = ['grp-north', 'grp-south'];
+      expect(ids(service.apply(devices, statusOf))).toEqual(['1', '2', '3']);
+
+      service.filters.groupIds = ['grp-south'];
+      expect(ids(service.apply(devices, statusOf))).toEqual(['3']);
+    });
+  });
+});
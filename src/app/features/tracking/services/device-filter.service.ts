@@ -0,0 +1,150 @@
+import { Injectable } from '@angular/core';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
+import { DeviceService, DeviceWithLocation, StrapState } from '../../../core/services/device.service';
+import { DeviceGroupService } from '../../../core/services/device-group.service';
+
+export type DeviceStatusFilter = 'online' | 'recent' | 'offline';
+
+export interface DeviceFilters {
+  search: string; // Matches name, IMEI and model
+  types: string[]; // Empty matches every type
+  statuses: DeviceStatusFilter[];
+  battery: [number, number]; // Inclusive percent range; devices without a reading only match 0-100
+  strap: StrapState | 'all';
+  groupIds: string[]; // Device must be in at least one of these groups
+}
+
+export const DEVICE_TYPES = ['Wearable', 'Vehicle', 'Asset', 'Mobile'];
+export const DEVICE_STATUSES: DeviceStatusFilter[] = ['online', 'recent', 'offline'];
+const STRAP_STATES: StrapState[] = ['on', 'removed', 'unknown'];
+
+// Query parameter names on the dashboard URL
+const PARAMS = {
+  search: 'q',
+  types: 'type',
+  statuses: 'status',
+  battery: 'battery',
+  strap: 'strap',
+  groupIds: 'group'
+} as const;
+
+function defaultFilters(): DeviceFilters {
+  return { search: '', types: [], statuses: [], battery: [0, 100], strap: 'all', groupIds: [] };
+}
+
+/**
+ * Dashboard device filters shared by the filter bar, the device table and the
+ * map markers. The filters are mirrored in the URL query so a filtered view
+ * can be bookmarked or shared.
+ * Provided by TrackingComponent.
+ */
+@Injectable()
+export class DeviceFilterService {
+  filters: DeviceFilters = defaultFilters();
+  // Group ids in the last URL read that do not exist in this browser
+  unknownGroupIds: string[] = [];
+
+  constructor(
+    private deviceService: DeviceService,
+    private deviceGroupService: DeviceGroupService,
+    private router: Router,
+    private route: ActivatedRoute
+  ) {}
+
+  get activeCount(): number {
+    const { search, types, statuses, battery, strap, groupIds } = this.filters;
+    return [
+      search.trim() !== '',
+      types.length > 0,
+      statuses.length > 0,
+      battery[0] > 0 || battery[1] < 100,
+      strap !== 'all',
+      groupIds.length > 0
+    ].filter(Boolean).length;
+  }
+
+  /**
+   * Take the filters from the URL query; returns whether they changed.
+   * Groups live in local storage, so a shared link can name groups this
+   * browser does not have; those are dropped and listed in `unknownGroupIds`.
+   */
+  readFromUrl(params: ParamMap): boolean {
+    const list = (name: string) => (params.get(name) ?? '').split(',').map(value => value.trim()).filter(Boolean);
+    const [min, max] = list(PARAMS.battery).map(Number);
+    const strap = params.get(PARAMS.strap) as StrapState;
+    const knownGroupIds = new Set(this.deviceGroupService.getGroups().map(group => group.id));
+    const groupIds = list(PARAMS.groupIds);
+    this.unknownGroupIds = groupIds.filter(id => !knownGroupIds.has(id));
+
+    const filters: DeviceFilters = {
+      search: params.get(PARAMS.search) ?? '',
+      types: list(PARAMS.types).filter(type => DEVICE_TYPES.includes(type)),
+      statuses: list(PARAMS.statuses).filter((status): status is DeviceStatusFilter =>
+        DEVICE_STATUSES.includes(status as DeviceStatusFilter)),
+      battery: Number.isFinite(min) && Number.isFinite(max) && 0 <= min && min <= max && max <= 100
+        ? [min, max]
+        : [0, 100],
+      strap: STRAP_STATES.includes(strap) ? strap : 'all',
+      groupIds: groupIds.filter(id => knownGroupIds.has(id))
+    };
+
+    if (JSON.stringify(filters) === JSON.stringify(this.filters)) {
+      return false;
+    }
+    this.filters = filters;
+    return true;
+  }
+
+  /**
+   * Mirror the filters in the URL without adding a history entry per change
+   */
+  writeToUrl(): void {
+    const { search, types, statuses, battery, strap, groupIds } = this.filters;
+    const queryParams: Params = {
+      [PARAMS.search]: search || null,
+      [PARAMS.types]: types.join(',') || null,
+      [PARAMS.statuses]: statuses.join(',') || null,
+      [PARAMS.battery]: battery[0] > 0 || battery[1] < 100 ? battery.join(',') : null,
+      [PARAMS.strap]: strap !== 'all' ? strap : null,
+      [PARAMS.groupIds]: groupIds.join(',') || null
+    };
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  reset(): void {
+    this.filters = defaultFilters();
+  }
+
+  /**
+   * Devices that pass every filter; `statusOf` is the dashboard's status label
+   */
+  apply(devices: DeviceWithLocation[], statusOf: (device: DeviceWithLocation) => string): DeviceWithLocation[] {
+    if (this.activeCount === 0) {
+      return devices;
+    }
+
+    const { search, types, statuses, battery, strap, groupIds } = this.filters;
+    const terms = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const batteryFiltered = battery[0] > 0 || battery[1] < 100;
+    // Ids of groups deleted since the URL was written are ignored
+    const selectedGroups = this.deviceGroupService.getGroups().filter(group => groupIds.includes(group.id));
+    const grouped = new Set(selectedGroups.flatMap(group => group.deviceIds));
+
+    return devices.filter(device => {
+      const haystack = [device.name, device.imei, device.model].filter(Boolean).join(' ').toLowerCase();
+      return terms.every(term => haystack.includes(term)) &&
+        (types.length === 0 || types.includes(device.type ?? '')) &&
+        (statuses.length === 0 || statuses.includes(statusOf(device).toLowerCase() as DeviceStatusFilter)) &&
+        (!batteryFiltered ||
+          (typeof device.battery === 'number' && device.battery >= battery[0] && device.battery <= battery[1])) &&
+        (strap === 'all' || this.deviceService.getStrapState(device.strap) === strap) &&
+        (selectedGroups.length === 0 || grouped.has(device.id));
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../../../environments/environment';
+import { GeoPoint, Geofence, GeofenceShape } from '../../../core/geofences/geofence-geometry';
+import { GeofenceService } from '../../../core/services/geofence.service';
+
+export type GeofenceTool = 'circle' | 'polygon';
+
+export interface GeofenceDraft {
+  id: string | null; // null while drawing a new geofence
+  tool: GeofenceTool;
+  name: string;
+  dwellMinutes: number;
+  center: GeoPoint | null;
+  radiusMeters: number;
+  path: GeoPoint[];
+  /**
+   * Bumped when the draft changes from outside the map (a click adding a
+   * point); the draft overlay redraws from the draft only then, so edits made
+   * by dragging the shape are not fed back into it
+   */
+  revision: number;
+}
+
+/**
+ * Drawing and editing state for geofences on the dashboard map, shared by the
+ * geofence panel and the draft overlay inside the map.
+ * Provided by TrackingComponent.
+ */
+@Injectable()
+export class GeofenceEditorService {
+  draft: GeofenceDraft | null = null;
+
+  constructor(private geofenceService: GeofenceService) {}
+
+  get canSave(): boolean {
+    return this.toShape() !== null;
+  }
+
+  startDrawing(tool: GeofenceTool): void {
+    this.draft = {
+      id: null,
+      tool,
+      name: '',
+      dwellMinutes: environment.geofences.defaultDwellMinutes,
+      center: null,
+      radiusMeters: environment.geofences.defaultRadiusMeters,
+      path: [],
+      revision: 0
+    };
+  }
+
+  edit(geofence: Geofence): void {
+    const shape = geofence.shape;
+    this.draft = {
+      id: geofence.id,
+      tool: shape.type,
+      name: geofence.name,
+      dwellMinutes: geofence.dwellMinutes,
+      center: shape.type === 'circle' ? shape.center : null,
+      radiusMeters: shape.type === 'circle' ? shape.radiusMeters : environment.geofences.defaultRadiusMeters,
+      path: shape.type === 'polygon' ? [...shape.path] : [],
+      revision: 0
+    };
+  }
+
+  /**
+   * Map click while drawing: places the circle or adds a polygon corner
+   */
+  addPoint(point: GeoPoint): void {
+    const draft = this.draft;
+    if (!draft) {
+      return;
+    }
+
+    if (draft.tool === 'circle') {
+      if (draft.center) {
+        return;
+      }
+      draft.center = point;
+    } else {
+      draft.path = [...draft.path, point];
+    }
+    draft.revision++;
+  }
+
+  undoPoint(): void {
+    const draft = this.draft;
+    if (draft?.tool === 'polygon' && draft.path.length > 0) {
+      draft.path = draft.path.slice(0, -1);
+      draft.revision++;
+    }
+  }
+
+  /**
+   * Shape edited on the map by dragging; does not redraw the overlay
+   */
+  updateCircle(center: GeoPoint, radiusMeters: number): void {
+    if (this.draft?.tool === 'circle') {
+      this.draft.center = center;
+      this.draft.radiusMeters = radiusMeters;
+    }
+  }
+
+  updatePath(path: GeoPoint[]): void {
+    if (this.draft?.tool === 'polygon') {
+      this.draft.path = path;
+    }
+  }
+
+  save(): Geofence | null {
+    const draft = this.draft;
+    const shape = this.toShape();
+    if (!draft || !shape) {
+      return null;
+    }
+
+    const dwellMinutes = Math.max(0, draft.dwellMinutes || 0);
+    let saved: Geofence | null;
+    if (draft.id) {
+      this.geofenceService.update(draft.id, { name: draft.name.trim() || 'Geofence', shape, dwellMinutes });
+      saved = this.geofenceService.getGeofences().find(geofence => geofence.id === draft.id) ?? null;
+    } else {
+      saved = this.geofenceService.create(draft.name, shape, dwellMinutes);
+    }
+
+    this.draft = null;
+    return saved;
+  }
+
+  cancel(): void {
+    this.draft = null;
+  }
+
+  private toShape(): GeofenceShape | null {
+    const draft = this.draft;
+    if (!draft) {
+      return null;
+    }
+
+    if (draft.tool === 'circle') {
+      return draft.center && draft.radiusMeters > 0
+        ? { type: 'circle', center: draft.center, radiusMeters: Math.round(draft.radiusMeters) }
+        : null;
+    }
+    return draft.path.length >= 3 ? { type: 'polygon', path: draft.path } : null;
+  }
+}
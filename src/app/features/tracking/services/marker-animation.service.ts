@@ -0,0 +1,225 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { environment } from '../../../../environments/environment';
+import { DeviceWithLocation } from '../../../core/services/device.service';
+
+export interface TrailSegment {
+  path: google.maps.LatLngLiteral[];
+  options: google.maps.PolylineOptions;
+}
+
+interface MarkerTrack {
+  from: google.maps.LatLngLiteral;
+  to: google.maps.LatLngLiteral;
+  current: google.maps.LatLngLiteral;
+  startedAt: number;
+  durationMs: number;
+  lastTargetAt: number;
+  heading?: number;
+  trail: google.maps.LatLngLiteral[];
+  segments: TrailSegment[];
+  marker?: google.maps.Marker;
+}
+
+const MIN_ANIMATION_MS = 300;
+const TRAIL_COLOR = '#3b82f6';
+const TRAIL_MAX_OPACITY = 0.6;
+
+/**
+ * Moves dashboard markers smoothly from their previous fix to the new one.
+ * Each move takes as long as the gap since the device's previous update
+ * (capped by `liveMap.maxAnimationSeconds`), so markers travel continuously
+ * between refreshes instead of jumping. Positions are written straight to the
+ * google.maps.Marker outside the Angular zone; templates bind `positionOf`
+ * so change detection always agrees with the animation.
+ *
+ * Provided by TrackingComponent, one instance per map.
+ */
+@Injectable()
+export class MarkerAnimationService implements OnDestroy {
+  private readonly config = environment.liveMap;
+  private readonly reducedMotion = typeof window !== 'undefined' &&
+    window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+  private tracks = new Map<string, MarkerTrack>();
+  private frameId: number | null = null;
+
+  constructor(private ngZone: NgZone) {}
+
+  /**
+   * Feed the latest device list. New devices appear in place, moved devices
+   * start a new animation and devices without a location are forgotten.
+   */
+  update(devices: DeviceWithLocation[]): void {
+    const now = performance.now();
+    const seen = new Set<string>();
+
+    devices.forEach(device => {
+      if (!device.location) {
+        return;
+      }
+
+      seen.add(device.id);
+      const target = { lat: device.location.latitude, lng: device.location.longitude };
+      const reportedHeading = device.location.heading ?? device.location.direction;
+      const track = this.tracks.get(device.id);
+
+      if (!track) {
+        this.tracks.set(device.id, {
+          from: target,
+          to: target,
+          current: target,
+          startedAt: now,
+          durationMs: 0,
+          lastTargetAt: now,
+          heading: reportedHeading,
+          trail: [],
+          segments: []
+        });
+        return;
+      }
+
+      if (track.to.lat === target.lat && track.to.lng === target.lng) {
+        if (reportedHeading !== undefined) {
+          track.heading = reportedHeading;
+        }
+        return;
+      }
+
+      track.heading = reportedHeading ?? this.bearing(track.to, target);
+      track.trail = [...track.trail, track.to].slice(-this.config.trailLength);
+      track.segments = this.buildSegments(track.trail);
+      track.from = track.current;
+      track.to = target;
+      track.startedAt = now;
+      track.durationMs = this.config.animateMarkers && !this.reducedMotion
+        ? Math.min(Math.max(now - track.lastTargetAt, MIN_ANIMATION_MS), this.config.maxAnimationSeconds * 1000)
+        : 0;
+      track.lastTargetAt = now;
+
+      if (track.durationMs === 0) {
+        this.moveTo(track, target);
+      }
+    });
+
+    Array.from(this.tracks.keys())
+      .filter(id => !seen.has(id))
+      .forEach(id => this.tracks.delete(id));
+
+    this.startLoop();
+  }
+
+  /**
+   * Called from `markerInitialized` so frames can move the marker directly
+   */
+  register(deviceId: string, marker: google.maps.Marker): void {
+    const track = this.tracks.get(deviceId);
+    if (track) {
+      track.marker = marker;
+    }
+  }
+
+  positionOf(device: DeviceWithLocation): google.maps.LatLngLiteral {
+    return this.tracks.get(device.id)?.current ?? {
+      lat: device.location!.latitude,
+      lng: device.location!.longitude
+    };
+  }
+
+  headingOf(deviceId: string): number | undefined {
+    return this.tracks.get(deviceId)?.heading;
+  }
+
+  trailOf(deviceId: string): TrailSegment[] {
+    return this.tracks.get(deviceId)?.segments ?? [];
+  }
+
+  clear(): void {
+    this.tracks.clear();
+    this.stopLoop();
+  }
+
+  ngOnDestroy(): void {
+    this.clear();
+  }
+
+  private startLoop(): void {
+    if (this.frameId !== null || !this.hasActiveAnimation()) {
+      return;
+    }
+
+    this.ngZone.runOutsideAngular(() => {
+      const step = () => {
+        const now = performance.now();
+
+        this.tracks.forEach(track => {
+          if (track.durationMs === 0 || this.isSettled(track)) {
+            return;
+          }
+          const progress = Math.min((now - track.startedAt) / track.durationMs, 1);
+          this.moveTo(track, {
+            lat: track.from.lat + (track.to.lat - track.from.lat) * progress,
+            lng: track.from.lng + (track.to.lng - track.from.lng) * progress
+          });
+        });
+
+        this.frameId = this.hasActiveAnimation() ? requestAnimationFrame(step) : null;
+      };
+      this.frameId = requestAnimationFrame(step);
+    });
+  }
+
+  private stopLoop(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  private hasActiveAnimation(): boolean {
+    return Array.from(this.tracks.values()).some(track => track.durationMs > 0 && !this.isSettled(track));
+  }
+
+  private isSettled(track: MarkerTrack): boolean {
+    return track.current.lat === track.to.lat && track.current.lng === track.to.lng;
+  }
+
+  private moveTo(track: MarkerTrack, position: google.maps.LatLngLiteral): void {
+    track.current = position;
+    track.marker?.setPosition(position);
+  }
+
+  /**
+   * Oldest segments are the faintest
+   */
+  private buildSegments(trail: google.maps.LatLngLiteral[]): TrailSegment[] {
+    const count = trail.length - 1;
+    const segments: TrailSegment[] = [];
+
+    for (let i = 0; i < count; i++) {
+      segments.push({
+        path: [trail[i], trail[i + 1]],
+        options: {
+          strokeColor: TRAIL_COLOR,
+          strokeOpacity: TRAIL_MAX_OPACITY * (i + 1) / count,
+          strokeWeight: 3,
+          clickable: false
+        }
+      });
+    }
+    return segments;
+  }
+
+  /**
+   * Initial bearing in degrees clockwise from north
+   */
+  private bearing(from: google.maps.LatLngLiteral, to: google.maps.LatLngLiteral): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const lat1 = toRadians(from.lat);
+    const lat2 = toRadians(to.lat);
+    const deltaLng = toRadians(to.lng - from.lng);
+
+    const y = Math.sin(deltaLng) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLng);
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+  }
+}
@@ -0,0 +1,83 @@
+import { environment } from '../../../../environments/environment';
+import { DeviceWithLocation } from '../../../core/services/device.service';
+import { MarkerClusterService } from './marker-cluster.service';
+
+describe('MarkerClusterService', () => {
+  const { clusterThreshold, clusterMaxZoom } = environment.liveMap;
+  const statusOf = (device: DeviceWithLocation) => device.status ?? 'Offline';
+
+  let service: MarkerClusterService;
+
+  function device(id: number, latitude: number, longitude: number, status = 'Online'): DeviceWithLocation {
+    return {
+      id: String(id),
+      name: `Device ${id}`,
+      status,
+      location: { deviceId: String(id), latitude, longitude, timestamp: new Date(0) }
+    };
+  }
+
+  /**
+   * `count` devices packed within a few meters of each other
+   */
+  function fleet(count: number, latitude = 52.37, longitude = 4.89): DeviceWithLocation[] {
+    return Array.from({ length: count }, (_, index) => device(index, latitude + index * 1e-6, longitude));
+  }
+
+  beforeEach(() => {
+    service = new MarkerClusterService();
+  });
+
+  it('shows individual markers below the cluster threshold', () => {
+    const devices = fleet(clusterThreshold - 1);
+
+    expect(service.cluster(devices, 5, statusOf)).toEqual({ clusters: [], singles: devices });
+  });
+
+  it('shows individual markers from the maximum cluster zoom on', () => {
+    const result = service.cluster(fleet(clusterThreshold), clusterMaxZoom, statusOf);
+
+    expect(result.clusters).toEqual([]);
+    expect(result.singles.length).toBe(clusterThreshold);
+  });
+
+  it('groups nearby devices and keeps distant ones apart', () => {
+    const far = device(999, -33.86, 151.21);
+    const result = service.cluster([...fleet(clusterThreshold), far], 10, statusOf);
+
+    expect(result.clusters.length).toBe(1);
+    expect(result.clusters[0].devices.length).toBe(clusterThreshold);
+    expect(result.singles).toEqual([far]);
+  });
+
+  it('skips devices without a location', () => {
+    const unlocated: DeviceWithLocation = { id: 'x', name: 'No fix' };
+    const result = service.cluster([...fleet(clusterThreshold), unlocated], 10, statusOf);
+
+    expect(result.singles).toEqual([]);
+    expect(result.clusters[0].devices).not.toContain(unlocated);
+  });
+
+  it('counts statuses with the dashboard status function', () => {
+    const devices = fleet(clusterThreshold);
+    devices[0].status = 'Recent';
+    devices[1].status = 'Offline';
+    devices[2].status = 'something else';
+
+    const [cluster] = service.cluster(devices, 10, statusOf).clusters;
+
+    expect(cluster.counts).toEqual({ online: clusterThreshold - 3, recent: 1, offline: 2 });
+  });
+
+  it('centres the cluster and bounds its members', () => {
+    const devices = [...fleet(clusterThreshold - 1), device(500, 52.3701, 4.8901)];
+
+    const [cluster] = service.cluster(devices, 10, statusOf).clusters;
+
+    expect(cluster.bounds.north).toBeCloseTo(52.3701, 6);
+    expect(cluster.bounds.east).toBeCloseTo(4.8901, 6);
+    expect(cluster.bounds.south).toBeCloseTo(52.37, 6);
+    expect(cluster.position.lat).toBeGreaterThan(cluster.bounds.south);
+    expect(cluster.position.lat).toBeLessThan(cluster.bounds.north);
+  });
+});
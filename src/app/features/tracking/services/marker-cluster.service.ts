@@ -0,0 +1,117 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../../../environments/environment';
+import { DeviceWithLocation } from '../../../core/services/device.service';
+
+export type ClusterStatus = 'online' | 'recent' | 'offline';
+
+export interface DeviceCluster {
+  id: string;
+  position: google.maps.LatLngLiteral;
+  devices: DeviceWithLocation[];
+  counts: Record<ClusterStatus, number>;
+  bounds: google.maps.LatLngBoundsLiteral;
+}
+
+export interface ClusterResult {
+  clusters: DeviceCluster[];
+  singles: DeviceWithLocation[];
+}
+
+const TILE_SIZE = 256;
+
+/**
+ * Groups nearby devices on a fixed pixel grid for the current zoom level.
+ * Clustering only kicks in once the fleet reaches `liveMap.clusterThreshold`
+ * located devices and stops at `liveMap.clusterMaxZoom`, so small fleets and
+ * close-up views always show individual markers.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MarkerClusterService {
+  private readonly config = environment.liveMap;
+
+  /**
+   * @param statusOf The dashboard's status label, so cluster counts match the device table
+   */
+  cluster(devices: DeviceWithLocation[], zoom: number, statusOf: (device: DeviceWithLocation) => string): ClusterResult {
+    const located = devices.filter(device => device.location);
+
+    if (located.length < this.config.clusterThreshold || zoom >= this.config.clusterMaxZoom) {
+      return { clusters: [], singles: located };
+    }
+
+    const scale = TILE_SIZE * Math.pow(2, Math.round(zoom));
+    const cells = new Map<string, DeviceWithLocation[]>();
+
+    located.forEach(device => {
+      const point = this.project(device.location!.latitude, device.location!.longitude, scale);
+      const key = `${Math.floor(point.x / this.config.clusterGridSizePx)}:${Math.floor(point.y / this.config.clusterGridSizePx)}`;
+      const cell = cells.get(key);
+      if (cell) {
+        cell.push(device);
+      } else {
+        cells.set(key, [device]);
+      }
+    });
+
+    const clusters: DeviceCluster[] = [];
+    const singles: DeviceWithLocation[] = [];
+
+    cells.forEach((members, key) => {
+      if (members.length === 1) {
+        singles.push(members[0]);
+      } else {
+        clusters.push(this.buildCluster(`${Math.round(zoom)}:${key}`, members, statusOf));
+      }
+    });
+
+    return { clusters, singles };
+  }
+
+  private buildCluster(
+    id: string,
+    devices: DeviceWithLocation[],
+    statusOf: (device: DeviceWithLocation) => string
+  ): DeviceCluster {
+    const counts: Record<ClusterStatus, number> = { online: 0, recent: 0, offline: 0 };
+    const bounds = { north: -90, south: 90, east: -180, west: 180 };
+    let latSum = 0;
+    let lngSum = 0;
+
+    devices.forEach(device => {
+      const { latitude, longitude } = device.location!;
+      counts[this.toClusterStatus(statusOf(device))]++;
+      latSum += latitude;
+      lngSum += longitude;
+      bounds.north = Math.max(bounds.north, latitude);
+      bounds.south = Math.min(bounds.south, latitude);
+      bounds.east = Math.max(bounds.east, longitude);
+      bounds.west = Math.min(bounds.west, longitude);
+    });
+
+    return {
+      id,
+      position: { lat: latSum / devices.length, lng: lngSum / devices.length },
+      devices,
+      counts,
+      bounds
+    };
+  }
+
+  private toClusterStatus(label: string): ClusterStatus {
+    const status = label.toLowerCase();
+    return status === 'online' || status === 'recent' ? status : 'offline';
+  }
+
+  /**
+   * Web Mercator world coordinates in pixels at the given scale
+   */
+  private project(lat: number, lng: number, scale: number): { x: number; y: number } {
+    const sinLat = Math.min(Math.max(Math.sin(lat * Math.PI / 180), -0.9999), 0.9999);
+    return {
+      x: (lng + 180) / 360 * scale,
+      y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+    };
+  }
+}
@@ -1,19 +1,42 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { GoogleMapsModule } from '@angular/google-maps';
+import { GoogleMap, GoogleMapsModule } from '@angular/google-maps';
 import { CardModule } from 'primeng/card';
 import { TableModule } from 'primeng/table';
 import { TagModule } from 'primeng/tag';
+import { ButtonModule } from 'primeng/button';
 import { MessageModule } from 'primeng/message';
 import { ProgressSpinnerModule } from 'primeng/progressspinner';
 import { ToastModule } from 'primeng/toast';
 import { MessageService } from 'primeng/api';
-import { Router } from '@angular/router';
-import { Subject, takeUntil, timer } from 'rxjs';
-import { DeviceService, DeviceWithLocation } from '../../core/services/device.service';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Observable, Subject, distinctUntilChanged, skip, takeUntil } from 'rxjs';
+import { DeviceService, DeviceWithLocation, StrapState } from '../../core/services/device.service';
+import { LiveConnectionState, LivePositionService } from '../../core/services/live-position.service';
+import { VitalsMonitorService } from '../../core/services/vitals-monitor.service';
+import { StrapMonitorService } from '../../core/services/strap-monitor.service';
+import { BatteryMonitorService } from '../../core/services/battery-monitor.service';
 import { AuthService } from '../../core/services/auth.service';
-import { ErrorHandlerService } from '../../core/services/error-handler.service';
+import { DeviceGroup, DeviceGroupService } from '../../core/services/device-group.service';
+import { NotificationService } from '../../core/services/notification.service';
 import { HeaderComponent, HeaderAction } from '../../shared/components/header/header.component';
+import { PollerState } from '../../core/polling/adaptive-poller';
+import { environment } from '../../../environments/environment';
+import { MarkerAnimationService, TrailSegment } from './services/marker-animation.service';
+import { ClusterStatus, DeviceCluster, MarkerClusterService } from './services/marker-cluster.service';
+import { DeviceDetailPanelComponent } from './components/device-detail-panel/device-detail-panel.component';
+import { AlertFeedComponent } from './components/alert-feed/alert-feed.component';
+import { IndoorFloorViewComponent } from './components/indoor-floor-view/indoor-floor-view.component';
+import { GeofencePanelComponent } from './components/geofence-panel/geofence-panel.component';
+import { GeofenceDraftOverlayComponent } from './components/geofence-draft-overlay/geofence-draft-overlay.component';
+import { GeofenceEditorService } from './services/geofence-editor.service';
+import { DeviceFilterService } from './services/device-filter.service';
+import { DeviceFilterBarComponent } from './components/device-filter-bar/device-filter-bar.component';
+import { GeofenceOverlaysComponent } from '../../shared/components/geofence-overlays/geofence-overlays.component';
+import { GeofenceService } from '../../core/services/geofence.service';
+import { Geofence } from '../../core/geofences/geofence-geometry';
+
+const MARKER_OPTIONS_CACHE_SIZE = 500;
 
 @Component({
   selector: 'app-tracking',
@@ -24,19 +47,39 @@ import { HeaderComponent, HeaderAction } from '../../shared/components/header/he
     CardModule,
     TableModule,
     TagModule,
+    ButtonModule,
     MessageModule,
     ProgressSpinnerModule,
     ToastModule,
-    HeaderComponent
+    HeaderComponent,
+    DeviceDetailPanelComponent,
+    AlertFeedComponent,
+    IndoorFloorViewComponent,
+    GeofencePanelComponent,
+    GeofenceDraftOverlayComponent,
+    GeofenceOverlaysComponent,
+    DeviceFilterBarComponent
   ],
+  providers: [MarkerAnimationService, GeofenceEditorService, DeviceFilterService],
   templateUrl: './tracking.component.html',
   styleUrl: './tracking.component.scss'
 })
 export class TrackingComponent implements OnInit, OnDestroy {
   devicesWithLocation: DeviceWithLocation[] = [];
+  // Devices passing the dashboard filters; drives both the table and the map markers
+  filteredDevices: DeviceWithLocation[] = [];
+  clusters: DeviceCluster[] = [];
+  selectedDevice: DeviceWithLocation | null = null;
+  detailVisible = false;
+  // Devices the user switched to the indoor floor view
+  indoorDeviceIds = new Set<string>();
+  unclusteredDevices: DeviceWithLocation[] = [];
   isLoading = false;
   apiStatusMessage = '';
   apiStatusSeverity: 'success' | 'info' | 'warn' | 'error' = 'info';
+  connectionState: LiveConnectionState = 'idle';
+  pollingState$: Observable<PollerState | null>;
+  geofences$: Observable<Geofence[]>;
   
   headerActions: HeaderAction[] = [
     {
@@ -69,15 +112,36 @@ export class TrackingComponent implements OnInit, OnDestroy {
     minZoom: 3,
   };
 
+  @ViewChild(GoogleMap) map?: GoogleMap;
+  // Close enough that the device is never hidden in a cluster
+  private readonly clusterMaxZoom = environment.liveMap.clusterMaxZoom;
+
   private destroy$ = new Subject<void>();
+  private currentZoom = this.mapZoom;
+  // Stable option objects so change detection does not reset marker icons
+  private markerOptionsCache = new Map<string, google.maps.MarkerOptions>();
 
   constructor(
+    private livePositionService: LivePositionService,
+    private vitalsMonitor: VitalsMonitorService,
+    private strapMonitor: StrapMonitorService,
+    private batteryMonitor: BatteryMonitorService,
+    private geofenceService: GeofenceService,
+    private geofenceEditor: GeofenceEditorService,
     private deviceService: DeviceService,
+    private deviceFilter: DeviceFilterService,
+    private deviceGroupService: DeviceGroupService,
+    private markerAnimation: MarkerAnimationService,
+    private markerClusterService: MarkerClusterService,
     private authService: AuthService,
     private messageService: MessageService,
-    private errorHandler: ErrorHandlerService,
-    private router: Router
-  ) {}
+    private notificationService: NotificationService,
+    private router: Router,
+    private route: ActivatedRoute
+  ) {
+    this.pollingState$ = this.livePositionService.pollingState$;
+    this.geofences$ = this.geofenceService.geofences$;
+  }
 
   ngOnInit(): void {
     // Check if user is authenticated using reactive state
@@ -94,19 +158,62 @@ export class TrackingComponent implements OnInit, OnDestroy {
       return;
     }
 
+    // Filters come from the URL so a filtered dashboard can be bookmarked or shared
+    this.route.queryParamMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      const changed = this.deviceFilter.readFromUrl(params);
+      if (this.deviceFilter.unknownGroupIds.length > 0) {
+        this.notificationService.warn(
+          'Group filter not applied',
+          'Device groups in the link do not exist in this browser and were left out of the filter.'
+        );
+        this.deviceFilter.writeToUrl();
+      }
+      if (changed) {
+        this.applyFilters();
+      }
+    });
+
+    // Pushed positions (or the polling fallback) keep the list current between snapshots
+    this.livePositionService.devices$.pipe(takeUntil(this.destroy$)).subscribe(devices => {
+      this.devicesWithLocation = devices;
+      this.markerAnimation.update(devices);
+      this.applyFilters();
+      // Keep the detail panel on the latest data for the selected device
+      if (this.selectedDevice) {
+        this.selectedDevice = devices.find(device => device.id === this.selectedDevice!.id) ?? null;
+        this.detailVisible = this.detailVisible && this.selectedDevice !== null;
+      }
+    });
+    // Group membership changes can move devices in or out of a group filter
+    this.deviceGroupService.groups$.pipe(skip(1), takeUntil(this.destroy$)).subscribe(() => this.applyFilters());
+    this.livePositionService.connectionState$.pipe(takeUntil(this.destroy$)).subscribe(state => {
+      this.connectionState = state;
+    });
+    this.livePositionService.start();
+    this.vitalsMonitor.start();
+    this.strapMonitor.start();
+    this.batteryMonitor.start();
+    this.geofenceService.start();
+
     this.loadDevices();
-    
-    // Auto-refresh every 15 seconds for more responsive updates
-    timer(15000, 15000)
-      .pipe(takeUntil(this.destroy$))
-      .subscribe(() => {
-        if (!this.isLoading) {
-          this.loadDevices(true); // Silent refresh
-        }
-      });
+
+    // Another account was selected: never keep the previous tenant's devices on screen
+    this.authService.activeAccountId$.pipe(
+      distinctUntilChanged(),
+      skip(1),
+      takeUntil(this.destroy$)
+    ).subscribe(() => {
+      this.markerOptionsCache.clear();
+      this.loadDevices();
+    });
   }
 
   ngOnDestroy(): void {
+    this.vitalsMonitor.stop();
+    this.strapMonitor.stop();
+    this.batteryMonitor.stop();
+    this.geofenceService.stop();
+    this.livePositionService.stop();
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -123,9 +230,15 @@ export class TrackingComponent implements OnInit, OnDestroy {
       this.apiStatusMessage = '';
     }
     
-    this.deviceService.getAllDevicesWithLocations().subscribe({
+    const accountId = this.authService.getActiveAccountId();
+
+    this.livePositionService.refresh().subscribe({
       next: (devices) => {
-        this.devicesWithLocation = devices;
+        // Drop responses that belong to an account that is no longer active
+        if (accountId !== this.authService.getActiveAccountId()) {
+          return;
+        }
+
         this.updateMapCenter();
         this.isLoading = false;
         
@@ -148,7 +261,10 @@ export class TrackingComponent implements OnInit, OnDestroy {
         }
       },
       error: (error) => {
-        console.error('Failed to load devices:', error);
+        if (accountId !== this.authService.getActiveAccountId()) {
+          return;
+        }
+
         this.isLoading = false;
         
         // Reset refresh button loading state
@@ -156,29 +272,23 @@ export class TrackingComponent implements OnInit, OnDestroy {
           refreshAction.loading = false;
         }
         
-        const apiError = this.errorHandler.handleApiError(error);
+        const apiError = this.notificationService.error(error, 'Error Loading Devices');
         
         // Set API status message based on error type
-        if (apiError.code === 404) {
+        if (apiError.code === 'NOT_FOUND') {
           this.apiStatusMessage = '⚠️ Traxbean API endpoints not accessible. The API may not be publicly available for external access.';
           this.apiStatusSeverity = 'warn';
-        } else if (apiError.code === 0) {
+        } else if (apiError.code === 'NETWORK_ERROR') {
           this.apiStatusMessage = '🚫 CORS Error: Cannot access Traxbean API from browser due to CORS restrictions.';
           this.apiStatusSeverity = 'error';
-        } else if (apiError.code === 401) {
+        } else if (apiError.code === 'UNAUTHORIZED') {
           this.apiStatusMessage = '🔒 Authentication failed. Please check your credentials.';
           this.apiStatusSeverity = 'error';
           this.logout();
         } else {
-          this.apiStatusMessage = `❌ API Error: ${error.message}`;
+          this.apiStatusMessage = `❌ API Error: ${apiError.message}`;
           this.apiStatusSeverity = 'error';
         }
-        
-        this.messageService.add({
-          severity: 'error',
-          summary: 'Error Loading Devices',
-          detail: apiError.userMessage
-        });
       }
     });
   }
@@ -205,49 +315,176 @@ export class TrackingComponent implements OnInit, OnDestroy {
   }
 
   getMarkerPosition(device: DeviceWithLocation): google.maps.LatLngLiteral {
-    return {
-      lat: device.location!.latitude,
-      lng: device.location!.longitude
-    };
+    return this.markerAnimation.positionOf(device);
+  }
+
+  onZoomChanged(): void {
+    const zoom = this.map?.getZoom();
+    if (zoom !== undefined && zoom !== this.currentZoom) {
+      this.currentZoom = zoom;
+      this.updateClusters();
+    }
+  }
+
+  updateClusters(): void {
+    const { clusters, singles } = this.markerClusterService.cluster(
+      this.filteredDevices,
+      this.currentZoom,
+      device => this.getDeviceStatus(device)
+    );
+    this.clusters = clusters;
+    this.unclusteredDevices = singles;
+  }
+
+  /**
+   * Zoom to expand: fit the map to the devices in the cluster
+   */
+  onClusterClick(cluster: DeviceCluster): void {
+    this.map?.fitBounds(cluster.bounds, 48);
+  }
+
+  getClusterOptions(cluster: DeviceCluster): google.maps.MarkerOptions {
+    const { online, recent, offline } = cluster.counts;
+    const cacheKey = `cluster|${online}|${recent}|${offline}`;
+
+    return this.cachedMarkerOptions(cacheKey, () => ({
+      title: `${cluster.devices.length} devices: ${online} online, ${recent} recent, ${offline} offline`,
+      zIndex: 1000 + cluster.devices.length,
+      icon: {
+        url: `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(this.getClusterSvg(cluster))}`,
+        scaledSize: new google.maps.Size(72, 76),
+        anchor: new google.maps.Point(36, 30)
+      }
+    }));
+  }
+
+  trackByClusterId(index: number, cluster: DeviceCluster): string {
+    return cluster.id;
+  }
+
+  getTrailSegments(device: DeviceWithLocation): TrailSegment[] {
+    return this.markerAnimation.trailOf(device.id);
   }
 
-  getDevicesWithValidLocation(): DeviceWithLocation[] {
-    return this.devicesWithLocation.filter(device => device.location);
+  onMarkerInitialized(device: DeviceWithLocation, marker: google.maps.Marker): void {
+    this.markerAnimation.register(device.id, marker);
   }
 
   getMarkerOptions(device: DeviceWithLocation): google.maps.MarkerOptions {
     const status = this.getDeviceStatus(device);
-    
-    return {
+    const heading = device.type === 'Vehicle' ? this.markerAnimation.headingOf(device.id) : undefined;
+    // Rounded so small heading changes reuse the same icon
+    const rotation = heading !== undefined ? (Math.round(heading / 5) * 5) % 360 : undefined;
+    const cacheKey = `${device.name}|${status}|${rotation ?? ''}`;
+
+    return this.cachedMarkerOptions(cacheKey, () => ({
       title: `${device.name} - ${status}`,
-      icon: {
-        url: `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(this.getMarkerSvg(status, device))}`,
-        scaledSize: new google.maps.Size(36, 48),
-        anchor: new google.maps.Point(18, 48)
+      icon: rotation !== undefined
+        ? {
+            url: `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(this.getVehicleSvg(status, rotation))}`,
+            scaledSize: new google.maps.Size(40, 40),
+            anchor: new google.maps.Point(20, 20)
+          }
+        : {
+            url: `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(this.getMarkerSvg(status, device))}`,
+            scaledSize: new google.maps.Size(36, 48),
+            anchor: new google.maps.Point(18, 48)
+          }
+    }));
+  }
+
+  private cachedMarkerOptions(key: string, create: () => google.maps.MarkerOptions): google.maps.MarkerOptions {
+    let options = this.markerOptionsCache.get(key);
+    if (!options) {
+      if (this.markerOptionsCache.size >= MARKER_OPTIONS_CACHE_SIZE) {
+        this.markerOptionsCache.clear();
       }
-    };
+      options = create();
+      this.markerOptionsCache.set(key, options);
+    }
+    return options;
   }
 
-  private getMarkerSvg(status: string, device: DeviceWithLocation): string {
-    // Define colors based on device status
-    let primaryColor: string;
-    let shadowColor: string;
-    
+  private getStatusColors(status: string): { primaryColor: string; shadowColor: string } {
     switch (status) {
       case 'Online':
-        primaryColor = '#10b981'; // Green
-        shadowColor = '#059669';
-        break;
+        return { primaryColor: '#10b981', shadowColor: '#059669' }; // Green
       case 'Recent':
-        primaryColor = '#f59e0b'; // Orange
-        shadowColor = '#d97706';
-        break;
+        return { primaryColor: '#f59e0b', shadowColor: '#d97706' }; // Orange
       case 'Offline':
       default:
-        primaryColor = '#ef4444'; // Red
-        shadowColor = '#dc2626';
-        break;
+        return { primaryColor: '#ef4444', shadowColor: '#dc2626' }; // Red
     }
+  }
+
+  /**
+   * Donut split by device status with the total in the middle and a count per status underneath
+   */
+  private getClusterSvg(cluster: DeviceCluster): string {
+    const statuses: { status: ClusterStatus; label: string }[] = [
+      { status: 'online', label: 'Online' },
+      { status: 'recent', label: 'Recent' },
+      { status: 'offline', label: 'Offline' }
+    ];
+    const total = cluster.devices.length;
+    const radius = 22;
+    const circumference = 2 * Math.PI * radius;
+    let offset = 0;
+
+    const arcs = statuses
+      .filter(({ status }) => cluster.counts[status] > 0)
+      .map(({ status, label }) => {
+        const length = circumference * cluster.counts[status] / total;
+        const arc = `<circle cx="36" cy="30" r="${radius}" fill="none" stroke="${this.getStatusColors(label).primaryColor}"
+          stroke-width="7" stroke-dasharray="${length} ${circumference - length}" stroke-dashoffset="${-offset}"
+          transform="rotate(-90 36 30)"/>`;
+        offset += length;
+        return arc;
+      })
+      .join('');
+
+    const badges = statuses.filter(({ status }) => cluster.counts[status] > 0);
+    const badgeWidth = 22;
+    const badgeStart = 36 - (badges.length * badgeWidth + (badges.length - 1) * 2) / 2;
+    const badgeMarkup = badges
+      .map(({ status, label }, index) => {
+        const x = badgeStart + index * (badgeWidth + 2);
+        return `<rect x="${x}" y="58" width="${badgeWidth}" height="16" rx="8" fill="${this.getStatusColors(label).primaryColor}"/>
+          <text x="${x + badgeWidth / 2}" y="70" font-size="10" font-family="Arial, sans-serif" font-weight="bold"
+            fill="white" text-anchor="middle">${cluster.counts[status]}</text>`;
+      })
+      .join('');
+
+    return `
+      <svg width="72" height="76" viewBox="0 0 72 76" xmlns="http://www.w3.org/2000/svg">
+        <circle cx="36" cy="30" r="26" fill="white" stroke="rgba(0,0,0,0.15)" stroke-width="1"/>
+        ${arcs}
+        <text x="36" y="35" font-size="14" font-family="Arial, sans-serif" font-weight="bold"
+          fill="#1f2937" text-anchor="middle">${total}</text>
+        ${badgeMarkup}
+      </svg>
+    `;
+  }
+
+  /**
+   * Direction arrow for moving vehicles, rotated to the current heading
+   */
+  private getVehicleSvg(status: string, rotation: number): string {
+    const { primaryColor, shadowColor } = this.getStatusColors(status);
+
+    return `
+      <svg width="40" height="40" viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg">
+        <g transform="rotate(${rotation} 20 20)">
+          <circle cx="20" cy="20" r="17" fill="white" stroke="${primaryColor}" stroke-width="2"/>
+          <path d="M20 6 L29 30 L20 25 L11 30 Z" fill="${primaryColor}" stroke="${shadowColor}" stroke-width="1"/>
+        </g>
+      </svg>
+    `;
+  }
+
+  private getMarkerSvg(status: string, device: DeviceWithLocation): string {
+    // Define colors based on device status
+    const { primaryColor, shadowColor } = this.getStatusColors(status);
 
     // Create a modern pin-style marker with device info
     return `
@@ -292,34 +529,70 @@ export class TrackingComponent implements OnInit, OnDestroy {
   }
 
   onMarkerClick(device: DeviceWithLocation): void {
-    let details = `Status: ${this.getDeviceStatus(device)}`;
-    
-    if (device.type) {
-      details += `\nType: ${device.type}`;
+    this.openDetails(device);
+  }
+
+  openDetails(device: DeviceWithLocation): void {
+    this.selectedDevice = device;
+    this.detailVisible = true;
+  }
+
+  get isDrawingGeofence(): boolean {
+    return this.geofenceEditor.draft !== null;
+  }
+
+  get editingGeofenceId(): string | null {
+    return this.geofenceEditor.draft?.id ?? null;
+  }
+
+  onMapClick(event: google.maps.MapMouseEvent): void {
+    if (this.isDrawingGeofence && event.latLng) {
+      this.geofenceEditor.addPoint({ lat: event.latLng.lat(), lng: event.latLng.lng() });
     }
-    
-    if (device.battery !== undefined) {
-      details += `\nBattery: ${device.battery}%`;
+  }
+
+  onGeofenceClick(geofence: Geofence): void {
+    this.geofenceEditor.edit(geofence);
+  }
+
+  get showIndoor(): boolean {
+    return this.selectedDevice !== null && this.indoorDeviceIds.has(this.selectedDevice.id);
+  }
+
+  setIndoor(device: DeviceWithLocation, indoor: boolean): void {
+    if (indoor) {
+      this.indoorDeviceIds.add(device.id);
+    } else {
+      this.indoorDeviceIds.delete(device.id);
     }
-    
-    if (device.location) {
-      details += `\nLocation: ${device.location.latitude.toFixed(6)}, ${device.location.longitude.toFixed(6)}`;
-      if (device.location.speed !== undefined) {
-        details += `\nSpeed: ${device.location.speed} km/h`;
-      }
-      if (device.location.altitude !== undefined) {
-        details += `\nAltitude: ${device.location.altitude}m`;
-      }
-      details += `\nLast Update: ${device.location.timestamp.toLocaleString()}`;
+  }
+
+  /**
+   * Picking another device on the floor plan keeps the indoor view
+   */
+  onIndoorDeviceSelected(deviceId: string): void {
+    this.indoorDeviceIds.add(deviceId);
+    this.openDeviceById(deviceId);
+  }
+
+  openDeviceById(deviceId: string): void {
+    const device = this.devicesWithLocation.find(candidate => candidate.id === deviceId);
+    if (device) {
+      this.openDetails(device);
     } else {
-      details += '\nNo location data available';
+      this.notificationService.warn('Device unavailable', 'This device is no longer on the dashboard');
     }
+  }
 
-    this.messageService.add({
-      severity: 'info',
-      summary: device.name,
-      detail: details
-    });
+  /**
+   * "Center on map" from the detail panel
+   */
+  onLocateDevice(device: DeviceWithLocation): void {
+    if (device.location) {
+      this.setIndoor(device, false);
+      this.map?.panTo({ lat: device.location.latitude, lng: device.location.longitude });
+      this.map?.googleMap?.setZoom(Math.max(this.currentZoom, this.clusterMaxZoom));
+    }
   }
 
   getDeviceStatus(device: DeviceWithLocation): string {
@@ -353,12 +626,51 @@ export class TrackingComponent implements OnInit, OnDestroy {
     }
   }
 
+  getStrapState(device: DeviceWithLocation): StrapState {
+    return this.deviceService.getStrapState(device.strap);
+  }
+
+  getStrapLabel(device: DeviceWithLocation): string {
+    switch (this.getStrapState(device)) {
+      case 'on': return 'On';
+      case 'removed': return 'Removed';
+      default: return 'N/A';
+    }
+  }
+
+  applyFilters(): void {
+    this.filteredDevices = this.deviceFilter.apply(this.devicesWithLocation, device => this.getDeviceStatus(device));
+    this.updateClusters();
+  }
+
+  getDeviceGroups(device: DeviceWithLocation): DeviceGroup[] {
+    return this.deviceGroupService.groupsOf(device.id);
+  }
+
   getBatteryClass(battery: number): string {
     if (battery > 50) return 'battery-good';
     if (battery > 20) return 'battery-medium';
     return 'battery-low';
   }
 
+  getConnectionLabel(): string {
+    switch (this.connectionState) {
+      case 'live': return 'Live';
+      case 'connecting': return 'Connecting…';
+      case 'polling': return 'Polling';
+      default: return 'Paused';
+    }
+  }
+
+  getConnectionSeverity(): 'success' | 'info' | 'warning' | 'secondary' {
+    switch (this.connectionState) {
+      case 'live': return 'success';
+      case 'connecting': return 'info';
+      case 'polling': return 'warning';
+      default: return 'secondary';
+    }
+  }
+
   trackByDeviceId(index: number, device: DeviceWithLocation): string {
     return device.id;
   }
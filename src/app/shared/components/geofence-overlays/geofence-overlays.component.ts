@@ -0,0 +1,63 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GoogleMapsModule } from '@angular/google-maps';
+import { Geofence } from '../../../core/geofences/geofence-geometry';
+
+interface GeofenceOverlay {
+  geofence: Geofence;
+  circleOptions: google.maps.CircleOptions | null;
+  polygonOptions: google.maps.PolygonOptions | null;
+}
+
+/**
+ * Draws geofences as circles and polygons. Place it inside a <google-map>.
+ */
+@Component({
+  selector: 'app-geofence-overlays',
+  templateUrl: './geofence-overlays.component.html',
+  standalone: true,
+  imports: [CommonModule, GoogleMapsModule]
+})
+export class GeofenceOverlaysComponent implements OnChanges {
+  @Input() geofences: Geofence[] = [];
+  @Input() hiddenId: string | null = null; // e.g. the geofence being edited
+  @Input() highlightedIds: string[] = [];
+  @Input() clickable = true;
+  @Output() geofenceClick = new EventEmitter<Geofence>();
+
+  overlays: GeofenceOverlay[] = [];
+
+  // Options are rebuilt only on input changes; new objects on every check would reset the shapes
+  ngOnChanges(): void {
+    const highlighted = new Set(this.highlightedIds);
+
+    this.overlays = this.geofences
+      .filter(geofence => geofence.id !== this.hiddenId)
+      .map(geofence => {
+        const style = {
+          strokeColor: geofence.color,
+          strokeOpacity: 0.9,
+          strokeWeight: highlighted.has(geofence.id) ? 4 : 2,
+          fillColor: geofence.color,
+          fillOpacity: highlighted.has(geofence.id) ? 0.3 : 0.12,
+          clickable: this.clickable,
+          zIndex: 1
+        };
+        const shape = geofence.shape;
+
+        return {
+          geofence,
+          circleOptions: shape.type === 'circle'
+            ? { ...style, center: shape.center, radius: shape.radiusMeters }
+            : null,
+          polygonOptions: shape.type === 'polygon'
+            ? { ...style, paths: shape.path }
+            : null
+        };
+      });
+  }
+
+  trackByGeofence(index: number, overlay: GeofenceOverlay): string {
+    return `${overlay.geofence.id}-${overlay.geofence.updatedAt}`;
+  }
+}
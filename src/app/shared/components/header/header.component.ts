@@ -1,6 +1,14 @@
 import { Component, Input, Output, EventEmitter } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
 import { ButtonModule } from 'primeng/button';
+import { MenuModule } from 'primeng/menu';
+import { MenuItem } from 'primeng/api';
+import { BehaviorSubject, Observable, combineLatest, map, of, switchMap, timer } from 'rxjs';
+import { AuthService, StoredSession } from '../../../core/services/auth.service';
+import { NotificationService } from '../../../core/services/notification.service';
+import { ADD_ACCOUNT_PARAM, RETURN_URL_PARAM } from '../../../core/guards/auth.guard';
+import { PollerState } from '../../../core/polling/adaptive-poller';
 
 export interface HeaderAction {
   label: string;
@@ -10,10 +18,15 @@ export interface HeaderAction {
   action: () => void;
 }
 
+export interface RefreshStatus {
+  label: string;
+  warning: boolean;
+}
+
 @Component({
   selector: 'app-header',
   standalone: true,
-  imports: [CommonModule, ButtonModule],
+  imports: [CommonModule, ButtonModule, MenuModule],
   templateUrl: './header.component.html',
   styleUrl: './header.component.scss'
 })
@@ -23,8 +36,108 @@ export class HeaderComponent {
   @Input() actions: HeaderAction[] = [];
   @Input() showShadow: boolean = true;
   @Input() backgroundColor: string = 'white';
+  @Input() showAccountSwitcher: boolean = true;
+
+  /** Shows the auto-refresh interval and a countdown to the next refresh */
+  @Input() set pollingState(state: PollerState | null) {
+    this.pollingStateSubject.next(state);
+  }
+
+  activeAccount$: Observable<StoredSession | null>;
+  accountMenuItems$: Observable<MenuItem[]>;
+  refreshStatus$: Observable<RefreshStatus | null>;
+
+  private pollingStateSubject = new BehaviorSubject<PollerState | null>(null);
+
+  constructor(
+    private authService: AuthService,
+    private router: Router,
+    private notificationService: NotificationService
+  ) {
+    const accounts$ = combineLatest([this.authService.accounts$, this.authService.activeAccountId$]);
+
+    this.activeAccount$ = accounts$.pipe(
+      map(([accounts, activeId]) => accounts.find(account => account.accountId === activeId) ?? null)
+    );
+
+    this.accountMenuItems$ = accounts$.pipe(
+      map(([accounts, activeId]) => this.buildAccountMenu(accounts, activeId))
+    );
+
+    this.refreshStatus$ = this.pollingStateSubject.pipe(
+      switchMap(state => state
+        ? timer(0, 1000).pipe(map(() => this.describeRefresh(state)))
+        : of(null))
+    );
+  }
 
   onActionClick(action: HeaderAction): void {
     action.action();
   }
-}
\ No newline at end of file
+
+  private describeRefresh(state: PollerState): RefreshStatus {
+    const intervalSeconds = Math.round(state.intervalMs / 1000);
+
+    if (state.paused) {
+      return { label: 'Auto-refresh paused', warning: false };
+    }
+    if (state.nextRefreshAt === null) {
+      return { label: 'Refreshing…', warning: false };
+    }
+
+    const remainingSeconds = Math.max(0, Math.ceil((state.nextRefreshAt - Date.now()) / 1000));
+    if (state.consecutiveErrors > 0) {
+      return { label: `Retrying in ${remainingSeconds}s`, warning: true };
+    }
+    return { label: `Every ${intervalSeconds}s · next in ${remainingSeconds}s`, warning: false };
+  }
+
+  private buildAccountMenu(accounts: StoredSession[], activeId: string | null): MenuItem[] {
+    const accountItems: MenuItem[] = accounts.map(account => ({
+      label: account.user.username,
+      title: account.clientId,
+      icon: account.accountId === activeId ? 'pi pi-check' : 'pi pi-user',
+      styleClass: account.accountId === activeId ? 'active-account' : undefined,
+      command: () => this.switchAccount(account)
+    }));
+
+    return [
+      { label: 'Accounts', items: accountItems },
+      { separator: true },
+      {
+        label: 'Add account',
+        icon: 'pi pi-user-plus',
+        command: () => this.addAccount()
+      },
+      {
+        label: 'Sign out of this account',
+        icon: 'pi pi-sign-out',
+        command: () => this.signOutActiveAccount()
+      }
+    ];
+  }
+
+  private switchAccount(account: StoredSession): void {
+    if (account.accountId === this.authService.getActiveAccountId()) {
+      return;
+    }
+
+    if (!this.authService.switchAccount(account.accountId)) {
+      // The stored session lapsed; sign in to that account again
+      this.notificationService.warn('Session Expired', `Please sign in to ${account.user.username} again.`);
+      this.addAccount();
+    }
+  }
+
+  private addAccount(): void {
+    this.router.navigate(['/login'], {
+      queryParams: { [ADD_ACCOUNT_PARAM]: true, [RETURN_URL_PARAM]: this.router.url }
+    });
+  }
+
+  private signOutActiveAccount(): void {
+    if (!this.authService.signOutAccount()) {
+      this.router.navigate(['/login']);
+    }
+  }
+}
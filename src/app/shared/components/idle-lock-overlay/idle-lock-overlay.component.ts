@@ -0,0 +1,83 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { InputTextModule } from 'primeng/inputtext';
+import { MessageModule } from 'primeng/message';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+import { AuthService, UserContext } from '../../../core/services/auth.service';
+import { IdleActivityService } from '../../../core/services/idle-activity.service';
+import { SessionTimeoutService } from '../../../core/services/session-timeout.service';
+
+@Component({
+  selector: 'app-idle-lock-overlay',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ButtonModule, InputTextModule, MessageModule],
+  templateUrl: './idle-lock-overlay.component.html',
+  styleUrl: './idle-lock-overlay.component.scss'
+})
+export class IdleLockOverlayComponent implements OnInit, OnDestroy {
+  isVisible = false;
+  user: UserContext | null = null;
+  password = '';
+  errorMessage = '';
+  isUnlocking = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private idleActivityService: IdleActivityService,
+    private authService: AuthService,
+    private sessionTimeoutService: SessionTimeoutService
+  ) {}
+
+  ngOnInit(): void {
+    this.idleActivityService.start();
+
+    combineLatest([this.idleActivityService.isLocked$, this.authService.currentUser$])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(([isLocked, user]) => {
+        this.user = user;
+        this.isVisible = isLocked && !!user;
+        if (!this.isVisible) {
+          this.password = '';
+          this.errorMessage = '';
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  unlock(): void {
+    if (!this.user || !this.password) {
+      return;
+    }
+
+    this.isUnlocking = true;
+    this.errorMessage = '';
+
+    // Re-authenticating also renews the session token
+    this.authService.authenticate({
+      username: this.user.username,
+      password: this.password,
+      clientId: this.authService.getActiveAccount()?.clientId
+    }).subscribe({
+      next: () => {
+        this.isUnlocking = false;
+        this.idleActivityService.unlock();
+      },
+      error: (error) => {
+        this.isUnlocking = false;
+        this.errorMessage = error.message || 'Unable to unlock. Please try again.';
+      }
+    });
+  }
+
+  signOut(): void {
+    this.idleActivityService.unlock();
+    this.sessionTimeoutService.signOut();
+  }
+}
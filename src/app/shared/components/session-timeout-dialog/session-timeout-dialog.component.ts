@@ -0,0 +1,122 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ConfirmationService } from 'primeng/api';
+import { ConfirmDialogModule } from 'primeng/confirmdialog';
+import { InputTextModule } from 'primeng/inputtext';
+import { MessageModule } from 'primeng/message';
+import { Subject, takeUntil } from 'rxjs';
+import { SessionTimeoutService } from '../../../core/services/session-timeout.service';
+
+@Component({
+  selector: 'app-session-timeout-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ConfirmDialogModule, InputTextModule, MessageModule],
+  templateUrl: './session-timeout-dialog.component.html',
+  styleUrl: './session-timeout-dialog.component.scss'
+})
+export class SessionTimeoutDialogComponent implements OnInit, OnDestroy {
+  readonly dialogKey = 'session-timeout';
+
+  secondsRemaining = 0;
+  password = '';
+  errorMessage = '';
+  requiresPassword = false;
+
+  private isOpen = false;
+  private isExtending = false;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private sessionTimeoutService: SessionTimeoutService,
+    private confirmationService: ConfirmationService
+  ) {}
+
+  ngOnInit(): void {
+    this.sessionTimeoutService.secondsRemaining$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(seconds => {
+        if (seconds === null) {
+          this.close();
+          return;
+        }
+
+        this.secondsRemaining = seconds;
+
+        if (seconds === 0) {
+          this.close();
+          this.sessionTimeoutService.signOut(true);
+          return;
+        }
+
+        if (!this.isOpen && !this.isExtending) {
+          this.open();
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.close();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  formatCountdown(): string {
+    const minutes = Math.floor(this.secondsRemaining / 60);
+    const seconds = this.secondsRemaining % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+
+  private open(): void {
+    this.isOpen = true;
+    this.requiresPassword = this.sessionTimeoutService.requiresPassword();
+
+    this.confirmationService.confirm({
+      key: this.dialogKey,
+      header: 'Session Expiring',
+      icon: 'pi pi-clock',
+      acceptLabel: 'Stay signed in',
+      rejectLabel: 'Sign out',
+      closable: false,
+      closeOnEscape: false,
+      accept: () => this.extend(),
+      reject: () => {
+        this.isOpen = false;
+        this.sessionTimeoutService.signOut();
+      }
+    });
+  }
+
+  private close(): void {
+    if (this.isOpen) {
+      this.confirmationService.close();
+      this.isOpen = false;
+    }
+    this.password = '';
+    this.errorMessage = '';
+  }
+
+  private extend(): void {
+    this.isOpen = false;
+    this.isExtending = true;
+    this.errorMessage = '';
+
+    try {
+      this.sessionTimeoutService.extendSession(this.password).subscribe({
+        next: () => {
+          this.isExtending = false;
+          this.password = '';
+        },
+        error: (error) => this.handleExtendError(error)
+      });
+    } catch (error) {
+      this.handleExtendError(error);
+    }
+  }
+
+  private handleExtendError(error: unknown): void {
+    this.isExtending = false;
+    this.errorMessage = (error instanceof Error && error.message) || 'Unable to extend the session.';
+    this.open();
+  }
+}
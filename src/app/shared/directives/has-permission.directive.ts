@@ -0,0 +1,48 @@
+import { Directive, Input, OnDestroy, OnInit, TemplateRef, ViewContainerRef } from '@angular/core';
+import { BehaviorSubject, Subject, switchMap, takeUntil } from 'rxjs';
+import { Permission, PermissionService } from '../../core/services/permission.service';
+
+/**
+ * Renders its content only when the current user holds the given permission(s).
+ *
+ * Usage: `<button *appHasPermission="'location:export'">Export</button>`
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: true
+})
+export class HasPermissionDirective implements OnInit, OnDestroy {
+  private required$ = new BehaviorSubject<Permission | Permission[]>([]);
+  private destroy$ = new Subject<void>();
+  private hasView = false;
+
+  @Input() set appHasPermission(permission: Permission | Permission[]) {
+    this.required$.next(permission);
+  }
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private permissionService: PermissionService
+  ) {}
+
+  ngOnInit(): void {
+    this.required$.pipe(
+      switchMap(required => this.permissionService.hasPermission$(required)),
+      takeUntil(this.destroy$)
+    ).subscribe(allowed => {
+      if (allowed && !this.hasView) {
+        this.viewContainer.createEmbeddedView(this.templateRef);
+        this.hasView = true;
+      } else if (!allowed && this.hasView) {
+        this.viewContainer.clear();
+        this.hasView = false;
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+}
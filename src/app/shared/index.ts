@@ -1,7 +1,12 @@
 // Components
 export * from './components/map/map.component';
 
+// Directives
+export * from './directives/has-permission.directive';
+
 // Interfaces
 export * from './interfaces/table.interface';
 export * from './interfaces/map.interface';
-export * from './components/header/header.component';
\ No newline at end of file
+export * from './components/header/header.component';
+export * from './components/session-timeout-dialog/session-timeout-dialog.component';
+export * from './components/idle-lock-overlay/idle-lock-overlay.component';
\ No newline at end of file
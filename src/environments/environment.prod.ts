@@ -1,7 +1,112 @@
+import type { VitalRule } from '../app/core/alerts/vital-rules';
+import type { Permission } from '../app/core/auth/permission';
+
 export const environment = {
   production: true,
   apiUrl: 'https://napi.5gcity.com',
   traxbeanApiUrl: 'https://napi.5gcity.com',
+  // Requests matching these get the Traxbean Authorization header (traxbeanApiUrl is always included).
+  // Entries may be origins ('https://staging.example.com'), hosts ('localhost:3000')
+  // or path prefixes for relative URLs behind a reverse proxy ('/app/traxbean').
+  authorizedApiHosts: ['https://napi.5gcity.com'],
+  
+  // Session Configuration
+  session: {
+    refreshLeadTimeSeconds: 120, // Re-authenticate this long before the JWT expires
+    fallbackLifetimeMinutes: 720, // Used when the token carries no `exp` claim
+    warningLeadTimeMinutes: 5, // Show the "stay signed in" countdown this long before expiry, unless the session renews silently
+    idleLockMinutes: 15 // Lock the screen after this much inactivity (0 disables)
+  },
+
+  // Login Configuration
+  login: {
+    clientIds: ['syscodeia-tracking'], // Offered on the login form; the first one is the default
+    freeAttempts: 3, // Failed attempts allowed before the client starts backing off
+    backoffBaseSeconds: 5, // First lockout; doubles with every further failure
+    backoffMaxSeconds: 300 // Upper bound for the lockout (a longer Retry-After still wins)
+  },
+  
+  // Permission Configuration
+  // Traxbean only returns the numeric `userType` of a user; which types exist
+  // and what each may do is this app's access policy, to be kept in line with
+  // the user types set up in the Traxbean admin console.
+  permissions: {
+    roles: {
+      1: ['device:read', 'location:read', 'location:export', 'cache:clear'], // Administrator
+      2: ['device:read', 'location:read', 'location:export'], // Operator
+      3: ['device:read', 'location:read'] // Viewer
+    } satisfies Record<number, Permission[]>,
+    defaultUserType: 3, // Applied to user types missing from `roles`
+    unassigned: ['device:read'] satisfies Permission[] // Users without a department (departmentId missing or 0) are awaiting approval
+  },
+
+  // Telemetry Configuration
+  telemetry: {
+    sink: 'noop' as 'http' | 'console' | 'noop', // 'http' posts batches to `endpoint`
+    endpoint: '', // Collector URL used by the 'http' sink; batches sent as the page is hidden arrive as text/plain JSON
+    flushIntervalSeconds: 30,
+    maxBufferSize: 50, // Flush early once this many events are queued
+    slowRequestThresholdMs: 3000 // API calls slower than this are reported
+  },
+  
+  // Live Position Configuration
+  livePositions: {
+    transport: 'polling' as 'websocket' | 'sse' | 'polling', // Push channel for per-device updates
+    url: '', // e.g. 'ws://localhost:8090/positions' (websocket) or 'http://localhost:8090/positions' (sse)
+    ticketUrl: '', // Required for sse: POST endpoint trading the bearer token for a single-use stream ticket, e.g. 'http://localhost:8090/positions/ticket'
+    reconnectAttempts: 3, // Reconnects tried before falling back to polling
+    reconnectDelaySeconds: 5,
+    snapshotIntervalSeconds: 120, // listTarget snapshots while a push channel is live, for new targets and status decay
+    pollIntervalSeconds: 15, // listTarget polling used when no push channel is available
+    fastPollIntervalSeconds: 5, // Polling interval while any device is moving
+    maxPollIntervalSeconds: 300 // Upper bound for the backoff after consecutive polling errors
+  },
+  
+  // Live Map Configuration
+  liveMap: {
+    animateMarkers: true, // Glide markers between fixes instead of jumping
+    maxAnimationSeconds: 15, // Longest single glide; usually the refresh interval
+    trailLength: 10, // Previous positions kept in each device's breadcrumb trail
+    clusterThreshold: 50, // Cluster markers once this many devices have a location
+    clusterGridSizePx: 60, // Devices within the same grid cell on screen form a cluster
+    clusterMaxZoom: 17, // Always show individual markers at this zoom and closer
+    detailRefreshSeconds: 15, // Vitals refresh while the device detail panel is open
+    indoorRefreshSeconds: 15, // Indoor fixes refresh while the floor view is shown
+    indoorScanSeconds: 120, // All dashboard devices are checked for indoor fixes this often; refreshes in between only query the shown site
+    indoorMaxDevices: 50 // Devices queried for indoor fixes besides the one being viewed
+  },
+  geofences: {
+    store: 'local' as 'local' | 'http', // 'http' loads and saves through `endpoint`
+    endpoint: '', // Geofence API for the 'http' store: GET and PUT {endpoint}/{accountId}
+    defaultRadiusMeters: 200, // Radius of a newly drawn circle
+    defaultDwellMinutes: 10, // Time inside a geofence before a dwell event
+    maxEvents: 100 // Recent enter/exit/dwell events kept for the dashboard
+  },
+  
+  // Alert Configuration
+  alerts: {
+    vitalsRefreshSeconds: 60, // How often wearable vitals are checked against the rules below
+    maxStored: 200, // Alerts kept per account in local storage
+    // metric: heartrate | bloodoxygen | temperature | systolic | diastolic; comparator: above | below
+    vitalRules: [
+      { id: 'heartrate-high', metric: 'heartrate', comparator: 'above', threshold: 120, severity: 'critical' },
+      { id: 'heartrate-low', metric: 'heartrate', comparator: 'below', threshold: 45, severity: 'critical' },
+      { id: 'bloodoxygen-low', metric: 'bloodoxygen', comparator: 'below', threshold: 92, severity: 'critical' },
+      { id: 'temperature-high', metric: 'temperature', comparator: 'above', threshold: 38.0, severity: 'warning' },
+      { id: 'temperature-low', metric: 'temperature', comparator: 'below', threshold: 35.0, severity: 'warning' },
+      { id: 'systolic-high', metric: 'systolic', comparator: 'above', threshold: 160, severity: 'warning' },
+      { id: 'systolic-low', metric: 'systolic', comparator: 'below', threshold: 90, severity: 'warning' },
+      { id: 'diastolic-high', metric: 'diastolic', comparator: 'above', threshold: 100, severity: 'warning' },
+      { id: 'diastolic-low', metric: 'diastolic', comparator: 'below', threshold: 60, severity: 'warning' }
+    ] satisfies VitalRule[],
+    battery: {
+      lowPercent: 20, // Default thresholds; each device can override them from the detail panel
+      criticalPercent: 10,
+      historyHours: 24, // Readings kept per device for the battery chart and time-to-empty estimate
+      sampleIntervalMinutes: 15, // One reading is kept per slot of this length; a newer one in the same slot replaces it
+      persistIntervalSeconds: 60 // The history is written to local storage at most this often
+    }
+  },
   
   // Google Maps Configuration
   googleMapsApiKey: 'YOUR_PRODUCTION_GOOGLE_MAPS_API_KEY_HERE',
@@ -13,6 +118,7 @@ export const environment = {
     maxDataPoints: 50000,
     defaultPageSize: 50,
     prefetchDays: 14,
+    deviceRefreshSeconds: 60, // Background refresh of the device list
     enableAnalytics: true,
     enableExport: true,
     mapDefaults: {
@@ -0,0 +1,205 @@
+// Local push server for trying out live positions without the real backend.
+//
+//   node tools/mock-position-server.mjs [port] [targetId,targetId,...]
+//
+// Serves the same stream two ways on /positions:
+//   - WebSocket:          ws://localhost:8090/positions
+//     The client authenticates with a first message {"type":"auth","token":"..."}.
+//   - Server-Sent Events: http://localhost:8090/positions?ticket=...
+//     The ticket comes from POST http://localhost:8090/positions/ticket with the
+//     bearer token in the Authorization header; it is single-use and expires after 30 seconds.
+// Tokens are never read from a URL. Any non-empty token is accepted, since the mock cannot verify Traxbean JWTs.
+// Every two seconds each target moves a little around its start point.
+// Use target ids from your own `listTarget` response; updates for unknown ids are ignored by the app.
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const port = Number(process.argv[2] ?? 8090);
+const targetIds = (process.argv[3] ?? '1,2,3').split(',').map(id => Number(id.trim()));
+const origin = { lat: 25.2834, lng: 55.5579 };
+
+const targets = targetIds.map((targetId, index) => ({
+  targetId,
+  lat: origin.lat + index * 0.004,
+  lng: origin.lng + index * 0.004,
+  heading: Math.random() * 360
+}));
+
+function nextUpdates() {
+  return targets.map(target => {
+    target.heading = (target.heading + (Math.random() - 0.5) * 40 + 360) % 360;
+    const radians = (target.heading * Math.PI) / 180;
+    target.lat += Math.cos(radians) * 0.0002;
+    target.lng += Math.sin(radians) * 0.0002;
+
+    return {
+      targetId: target.targetId,
+      lat: Number(target.lat.toFixed(6)),
+      lng: Number(target.lng.toFixed(6)),
+      utcTime: Date.now(),
+      speed: Math.round(20 + Math.random() * 30),
+      heading: Math.round(target.heading)
+    };
+  });
+}
+
+const ticketLifetimeMs = 30_000;
+const tickets = new Map(); // ticket -> expiry, epoch milliseconds
+
+const sseClients = new Set();
+const socketClients = new Set();
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+};
+
+function issueTicket() {
+  const ticket = randomUUID();
+  tickets.set(ticket, Date.now() + ticketLifetimeMs);
+  return ticket;
+}
+
+function redeemTicket(ticket) {
+  const expiresAt = tickets.get(ticket);
+  tickets.delete(ticket);
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+// Reads one masked client frame; large frames are not needed by the app and are ignored
+function readFrame(data) {
+  const opcode = data[0] & 0x0f;
+  let length = data[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    length = data.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    return { opcode, text: '' };
+  }
+
+  const mask = data.subarray(offset, offset + 4);
+  const payload = data.subarray(offset + 4, offset + 4 + length).map((byte, index) => byte ^ mask[index % 4]);
+  return { opcode, text: payload.toString() };
+}
+
+function readAuthToken(text) {
+  try {
+    const message = JSON.parse(text);
+    return message?.type === 'auth' && typeof message.token === 'string' ? message.token : '';
+  } catch {
+    return '';
+  }
+}
+
+function textFrame(text) {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x81, length])
+    : length < 65536
+      ? Buffer.from([0x81, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x81, 127]), bigLength(length)]);
+  return Buffer.concat([header, payload]);
+}
+
+function bigLength(length) {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(length));
+  return buffer;
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders).end();
+    return;
+  }
+
+  if (url.pathname === '/positions/ticket' && req.method === 'POST') {
+    if (!req.headers.authorization) {
+      res.writeHead(401, corsHeaders).end();
+      return;
+    }
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ticket: issueTicket() }));
+    return;
+  }
+
+  if (url.pathname !== '/positions') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  if (!redeemTicket(url.searchParams.get('ticket'))) {
+    res.writeHead(401, corsHeaders).end();
+    return;
+  }
+
+  res.writeHead(200, {
+    ...corsHeaders,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.write('retry: 5000\n\n');
+  sseClients.add(res);
+  req.on('close', () => sseClients.delete(res));
+  console.log(`SSE client connected (${sseClients.size})`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!req.url?.startsWith('/positions') || !key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash('sha1')
+    .update(key + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11')
+    .digest('base64');
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  // Positions are only streamed once the first message has authenticated the socket
+  socket.on('data', data => {
+    const frame = readFrame(data);
+    if (frame.opcode === 0x8) {
+      socket.end();
+      return;
+    }
+    if (socketClients.has(socket)) {
+      return;
+    }
+    if (frame.opcode !== 0x1 || !readAuthToken(frame.text)) {
+      console.log('WebSocket client did not authenticate; closing');
+      socket.end();
+      return;
+    }
+    socketClients.add(socket);
+    console.log(`WebSocket client authenticated (${socketClients.size})`);
+  });
+  socket.on('close', () => socketClients.delete(socket));
+  socket.on('error', () => socketClients.delete(socket));
+});
+
+setInterval(() => {
+  const message = JSON.stringify(nextUpdates());
+  sseClients.forEach(res => res.write(`data: ${message}\n\n`));
+  socketClients.forEach(socket => socket.write(textFrame(message)));
+}, 2000);
+
+server.listen(port, () => {
+  console.log(`Mock position server on ws://localhost:${port}/positions and http://localhost:${port}/positions`);
+  console.log(`Streaming targets: ${targetIds.join(', ')}`);
+});